@@ -4,51 +4,44 @@
 */
 import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import ReactCrop, { type Crop, type PixelCrop, centerCrop, makeAspectCrop } from 'react-image-crop';
-import { generateVibeBasedImage } from './services/geminiService';
+import { generateVibeBasedImage, refineGeneratedImage, inpaintGeneratedImage, buildVibePrompt, isApiKeyMissing, toGenerationError } from './services/geminiService';
 import PhotoCard from './components/PhotoCard';
-import { createAlbumPage } from './lib/albumUtils';
+import { createAlbumPages } from './lib/imageProcessing';
+import type { AlbumOptions, AlbumPhoto } from './lib/albumUtils';
+import { hashString } from './lib/random';
 import Footer from './components/Footer';
 import PolaroidCard from './components/PolaroidCard';
+import SettingsPanel from './components/SettingsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import AlbumPanel from './components/AlbumPanel';
+import PresetsPanel from './components/PresetsPanel';
+import SubjectProfilePicker from './components/SubjectProfilePicker';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import CompareView, { type CompareItem } from './components/CompareView';
+import MaskEditor from './components/MaskEditor';
+import CropModal from './components/CropModal';
+import ImageDropGrid from './components/ImageDropGrid';
+import { saveRun, getRun, importRun, saveSession, loadSession, clearSession } from './lib/historyStore';
+import { addImage, fromStoredImage, getImageBlob, releaseImage, releaseUnusedImages, totalImageBytes } from './lib/imageStore';
+import { downloadBlob, downloadUrl } from './lib/download';
+import { exportAlbumPdf, exportResultsZip, type AlbumExportFormat } from './lib/export';
+import { extensionForMimeType } from './lib/dataUrl';
+import { cn } from './lib/utils';
+import { formatBytes } from './lib/imagePreparation';
+import { VARIATION_MODES, buildSlotVariations, parseCustomVariations } from './lib/variations';
+import { autoCropImage, getCropAspect, type CropAspectPresetId } from './lib/autoCrop';
+import { ACCEPTED_UPLOAD_TYPES, normalizeImageFiles, type ImageRejection } from './lib/imageNormalization';
+import { DEFAULT_OUTPUT_SETTINGS, OUTPUT_ASPECT_RATIOS, OUTPUT_FITS, OUTPUT_SIZES, aspectRatioValue } from './lib/outputFormat';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, resolvePromptTemplate } from './lib/promptTemplates';
+import { DEFAULT_STYLE_CONTROLS, STYLE_CONTROL_SLIDERS } from './lib/styleControls';
+import { createMatchScorer } from './lib/similarity';
+import { runCompletion } from './lib/generationProgress';
+import { MAX_AUTO_RETRIES, getStoredAutoRetryThreshold, getStoredPromptTemplateId, getStoredPromptTemplates, setStoredPromptTemplateId, setStoredPromptTemplates } from './lib/settingsStorage';
+import type { AppState, GeneratedImage, GenerationProgress, GenerationRun, ImageId, ImageLocation, ImageVersion, MatchScore, OutputFit, OutputSettings, OutputSize, PromptTemplate, SlotVariation, StoredImage, StyleControls, SubjectProfile, UploadListId, VariationMode, VibePreset } from './types';
 
 const MAX_MAIN_IMAGES = 10;
 const MAX_INSPIRATION_IMAGES = 5;
 
-type ImageStatus = 'pending' | 'done' | 'error';
-interface GeneratedImage {
-    status: ImageStatus;
-    url?: string;
-    error?: string;
-}
-
-// Helper for image cropping
-function canvasPreview(
-    image: HTMLImageElement,
-    canvas: HTMLCanvasElement,
-    crop: PixelCrop
-) {
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('No 2d context');
-
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    const pixelRatio = window.devicePixelRatio;
-
-    canvas.width = Math.floor(crop.width * scaleX * pixelRatio);
-    canvas.height = Math.floor(crop.height * scaleY * pixelRatio);
-
-    ctx.scale(pixelRatio, pixelRatio);
-    ctx.imageSmoothingQuality = 'high';
-
-    const cropX = crop.x * scaleX;
-    const cropY = crop.y * scaleY;
-
-    ctx.save();
-    ctx.translate(-cropX, -cropY);
-    ctx.drawImage(image, 0, 0, image.naturalWidth, image.naturalHeight, 0, 0, image.naturalWidth, image.naturalHeight);
-    ctx.restore();
-}
-
 const primaryButtonClasses = "text-lg font-semibold text-center text-white bg-orange-500 py-3 px-8 rounded-full transform transition-transform duration-200 hover:scale-105 hover:bg-orange-600 shadow-lg disabled:bg-neutral-400 disabled:cursor-not-allowed disabled:scale-100";
 const secondaryButtonClasses = "text-lg font-semibold text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-3 px-8 rounded-full transform transition-transform duration-200 hover:scale-105 hover:bg-white hover:text-black";
 const fileInputButtonClasses = "text-base font-semibold text-center text-white bg-white/20 backdrop-blur-sm border-2 border-white/60 py-2 px-5 rounded-full transform transition-transform duration-200 hover:scale-105 hover:bg-white hover:text-black cursor-pointer";
@@ -165,24 +158,131 @@ const LandingPage = ({ onGetStarted }: { onGetStarted: () => void }) => (
     </div>
 );
 
+/**
+ * A slot's version chain. Results saved before versions were tracked count their image as the only version.
+ */
+function versionsOf(image: GeneratedImage | undefined): ImageVersion[] {
+    if (image?.versions) return image.versions;
+    return image?.url ? [{ url: image.url, createdAt: Date.now() }] : [];
+}
+
 function App() {
-    const [uploadedImages, setUploadedImages] = useState<string[]>([]);
-    const [inspirationImages, setInspirationImages] = useState<string[]>([]);
+    const [uploadedImages, setUploadedImages] = useState<ImageId[]>([]);
+    const [inspirationImages, setInspirationImages] = useState<ImageId[]>([]);
     const [userPrompt, setUserPrompt] = useState<string>('');
+    const [subjectNotes, setSubjectNotes] = useState<string>('');
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
     const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
+    // The latest lifecycle event of each slot's request, shown while the slot is pending; not saved with the run
+    const [slotProgress, setSlotProgress] = useState<Record<number, { progress: GenerationProgress; startedAt: number }>>({});
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
-    const [appState, setAppState] = useState<'idle' | 'photos-uploaded' | 'generating' | 'results-shown'>('idle');
+    const [isAlbumOpen, setIsAlbumOpen] = useState<boolean>(false);
+    const [isPresetsOpen, setIsPresetsOpen] = useState<boolean>(false);
+    const [compareSelection, setCompareSelection] = useState<number[]>([]);
+    const [isCompareOpen, setIsCompareOpen] = useState<boolean>(false);
+    const [maskEditIndex, setMaskEditIndex] = useState<number | null>(null);
+    const [sortByMatch, setSortByMatch] = useState<boolean>(false);
+    const [appState, setAppState] = useState<AppState>('idle');
     const [generationCount, setGenerationCount] = useState<number>(4);
+    const [variationMode, setVariationMode] = useState<VariationMode>('none');
+    const [customVariations, setCustomVariations] = useState<string>('');
+    const [outputSettings, setOutputSettings] = useState<OutputSettings>(DEFAULT_OUTPUT_SETTINGS);
+
+    // Prompt template state, kept across sessions like other preferences
+    const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(() => getStoredPromptTemplates());
+    const [promptTemplateId, setPromptTemplateId] = useState<string>(() => getStoredPromptTemplateId() ?? DEFAULT_TEMPLATE_ID);
+    const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState<boolean>(false);
+    const [styleControls, setStyleControls] = useState<StyleControls>(DEFAULT_STYLE_CONTROLS);
 
     // Cropping state
-    const [cropQueue, setCropQueue] = useState<{ dataUrl: string; type: 'main' | 'inspiration' }[]>([]);
-    const [crop, setCrop] = useState<Crop>();
-    const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
-    const imgRef = useRef<HTMLImageElement>(null);
+    const [cropQueue, setCropQueue] = useState<{ image: ImageId; type: UploadListId }[]>([]);
+    const [cropAspectPresetId, setCropAspectPresetId] = useState<CropAspectPresetId>('1:1');
 
     // Paste image state
-    const [pastedImages, setPastedImages] = useState<string[]>([]);
+    const [pastedImages, setPastedImages] = useState<ImageId[]>([]);
     const [isPasteModalOpen, setIsPasteModalOpen] = useState<boolean>(false);
+    const [rejectedFiles, setRejectedFiles] = useState<ImageRejection[]>([]);
+
+    // API key state
+    const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+    const [apiKeyMissing, setApiKeyMissing] = useState<boolean>(() => isApiKeyMissing());
+
+    // History state
+    const [currentRun, setCurrentRun] = useState<GenerationRun | null>(null);
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+    const [isSessionRestored, setIsSessionRestored] = useState<boolean>(false);
+
+    // Shared by every in-flight request so "Cancel" stops all pending slots at once
+    const abortControllerRef = useRef<AbortController>(new AbortController());
+    // Bumped by "Start Over" so requests from before it can't write their results back
+    const sessionRef = useRef(0);
+
+    // Restore the in-progress session from a previous page load
+    useEffect(() => {
+        loadSession()
+            .then(async session => {
+                if (!session) return;
+                setUploadedImages(session.uploadedImages);
+                setInspirationImages(session.inspirationImages);
+                setUserPrompt(session.userPrompt);
+                setSubjectNotes(session.subjectNotes ?? '');
+                setActiveProfileId(session.activeProfileId ?? null);
+                setGenerationCount(session.generationCount);
+                setVariationMode(session.variationMode ?? 'none');
+                setCustomVariations(session.customVariations ?? '');
+                setOutputSettings(session.outputSettings ?? DEFAULT_OUTPUT_SETTINGS);
+                setStyleControls(session.styleControls ?? DEFAULT_STYLE_CONTROLS);
+                setGeneratedImages(session.generatedImages);
+                setAppState(session.appState);
+                if (session.currentRunId) {
+                    setCurrentRun((await getRun(session.currentRunId)) ?? null);
+                }
+            })
+            .catch(err => console.error("Failed to restore previous session:", err))
+            .finally(() => setIsSessionRestored(true));
+    }, []);
+
+    // Persist the working session, debounced so rapid edits don't thrash IndexedDB
+    useEffect(() => {
+        if (!isSessionRestored) return;
+        const timeoutId = setTimeout(() => {
+            saveSession({
+                appState,
+                uploadedImages,
+                inspirationImages,
+                userPrompt,
+                subjectNotes,
+                activeProfileId,
+                generationCount,
+                variationMode,
+                customVariations,
+                outputSettings,
+                styleControls,
+                generatedImages,
+                currentRunId: currentRun?.id ?? null,
+            }).catch(err => console.error("Failed to save session:", err));
+        }, 500);
+        return () => clearTimeout(timeoutId);
+    }, [isSessionRestored, appState, uploadedImages, inspirationImages, userPrompt, subjectNotes, activeProfileId, generationCount, variationMode, customVariations, outputSettings, styleControls, generatedImages, currentRun]);
+
+    // Keep the current run's results in history up to date as slots complete or are regenerated
+    useEffect(() => {
+        if (!currentRun) return;
+        saveRun({ ...currentRun, results: generatedImages, updatedAt: Date.now() })
+            .catch(err => console.error("Failed to save run to history:", err));
+    }, [currentRun, generatedImages]);
+
+    // Free images, and their object URLs, once nothing on screen or in the current run refers to them
+    useEffect(() => {
+        releaseUnusedImages([
+            ...uploadedImages,
+            ...inspirationImages,
+            ...pastedImages,
+            ...cropQueue.map(item => item.image),
+            ...generatedImages.flatMap(image => [...(image.url ? [image.url] : []), ...(image.versions ?? []).map(version => version.url)]),
+            ...(currentRun ? [...currentRun.mainImages, ...currentRun.inspirationImages] : []),
+        ]);
+    }, [uploadedImages, inspirationImages, pastedImages, cropQueue, generatedImages, currentRun]);
 
     useEffect(() => {
         const handlePaste = (event: ClipboardEvent) => {
@@ -194,8 +294,10 @@ function App() {
             const items = event.clipboardData?.items;
             if (!items) return;
 
+            // Some platforms paste HEIC and other formats with an empty MIME type, so take every file
+            // and let normalization decide what's usable.
             const imageFiles = Array.from(items)
-                .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+                .filter(item => item.kind === 'file')
                 .map(item => item.getAsFile());
 
             // FIX: Use `instanceof File` for a more robust check to ensure that only
@@ -205,26 +307,12 @@ function App() {
 
             if (validImageFiles.length > 0) {
                 event.preventDefault();
-                const filePromises = validImageFiles.map(file => {
-                    return new Promise<string>((resolve, reject) => {
-                        const reader = new FileReader();
-                        reader.onloadend = () => {
-                            if (reader.result) {
-                                resolve(reader.result as string);
-                            } else {
-                                reject('Failed to read file');
-                            }
-                        };
-                        reader.onerror = reject;
-                        reader.readAsDataURL(file);
-                    });
-                });
-
-                Promise.all(filePromises).then(dataUrls => {
-                    setPastedImages(dataUrls);
-                    setIsPasteModalOpen(true);
-                }).catch(err => {
-                    console.error("Error reading pasted images:", err);
+                normalizeImageFiles(validImageFiles).then(({ accepted, rejected }) => {
+                    setRejectedFiles(rejected);
+                    if (accepted.length > 0) {
+                        setPastedImages(accepted.map(addImage));
+                        setIsPasteModalOpen(true);
+                    }
                 });
             }
         };
@@ -236,7 +324,7 @@ function App() {
         };
     }, []);
 
-    const handleAddPastedImages = (type: 'main' | 'inspiration') => {
+    const handleAddPastedImages = (type: UploadListId) => {
         const maxImages = type === 'main' ? MAX_MAIN_IMAGES : MAX_INSPIRATION_IMAGES;
         const currentCount = type === 'main' ? uploadedImages.length : inspirationImages.length;
         const availableSlots = maxImages - currentCount;
@@ -244,7 +332,7 @@ function App() {
         if (availableSlots <= 0) return;
 
         const imagesToAdd = pastedImages.slice(0, availableSlots);
-        const newQueueItems = imagesToAdd.map(dataUrl => ({ dataUrl, type }));
+        const newQueueItems = imagesToAdd.map(image => ({ image, type }));
 
         setCropQueue(prev => [...prev, ...newQueueItems]);
         
@@ -257,39 +345,46 @@ function App() {
         setPastedImages([]);
     }
 
-    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>, type: 'main' | 'inspiration') => {
-        if (e.target.files) {
-            const maxImages = type === 'main' ? MAX_MAIN_IMAGES : MAX_INSPIRATION_IMAGES;
-            const currentCount = type === 'main' ? uploadedImages.length : inspirationImages.length;
-            
-            const files = Array.from(e.target.files).slice(0, maxImages - currentCount);
-            
-            // FIX: Refactored to add robust error handling for file reading, mirroring the implementation in `handlePaste`.
-            const newQueueItemsPromises: Promise<{ dataUrl: string, type: 'main' | 'inspiration' }>[] = files.map(file => {
-                return new Promise((resolve, reject) => {
-                    const reader = new FileReader();
-                    reader.onloadend = () => {
-                        if (reader.result) {
-                            resolve({ dataUrl: reader.result as string, type });
-                        } else {
-                            reject('Failed to read file');
-                        }
-                    };
-                    reader.onerror = reject;
-                    reader.readAsDataURL(file);
-                });
-            });
+    const queueFilesForCropping = (selectedFiles: File[], type: UploadListId) => {
+        const maxImages = type === 'main' ? MAX_MAIN_IMAGES : MAX_INSPIRATION_IMAGES;
+        const currentCount = type === 'main' ? uploadedImages.length : inspirationImages.length;
+        
+        const files = selectedFiles.slice(0, maxImages - currentCount);
+        if (files.length === 0) return;
+        
+        normalizeImageFiles(files).then(({ accepted, rejected }) => {
+            setRejectedFiles(rejected);
+            setCropQueue(prev => [...prev, ...accepted.map(blob => ({ image: addImage(blob), type }))]);
+        });
+    };
 
-            Promise.all(newQueueItemsPromises).then(items => {
-                setCropQueue(prev => [...prev, ...items]);
-            }).catch(err => {
-                console.error("Error reading uploaded images:", err);
-            });
-            
+    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>, type: UploadListId) => {
+        if (e.target.files) {
+            queueFilesForCropping(Array.from<File>(e.target.files), type);
             e.target.value = '';
         }
     };
 
+    /**
+     * Moves a thumbnail within its list or into the other list. Moves into a full list are ignored.
+     */
+    const handleMoveImage = (from: ImageLocation, to: ImageLocation) => {
+        const lists: Record<UploadListId, ImageId[]> = { main: [...uploadedImages], inspiration: [...inspirationImages] };
+        if (from.list !== to.list) {
+            const maxImages = to.list === 'main' ? MAX_MAIN_IMAGES : MAX_INSPIRATION_IMAGES;
+            if (lists[to.list].length >= maxImages) return;
+        }
+
+        const [moved] = lists[from.list].splice(from.index, 1);
+        if (moved === undefined) return;
+        // Removing the item shifts later positions in the same list down by one
+        const targetIndex = from.list === to.list && from.index < to.index ? to.index - 1 : to.index;
+        lists[to.list].splice(targetIndex, 0, moved);
+
+        setUploadedImages(lists.main);
+        setInspirationImages(lists.inspiration);
+    };
+
     const removeMainImage = (index: number) => {
         setUploadedImages(prev => prev.filter((_, i) => i !== index));
     };
@@ -298,62 +393,160 @@ function App() {
         setInspirationImages(prev => prev.filter((_, i) => i !== index));
     };
 
-    const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
-        const { width, height } = e.currentTarget;
-        const initialCrop = centerCrop(
-            makeAspectCrop({ unit: '%', width: 90 }, 1, width, height),
-            width,
-            height
-        );
-        setCrop(initialCrop);
+    const addCroppedImage = (type: UploadListId, cropped: Blob) => {
+        const id = addImage(cropped);
+        if (type === 'main') {
+            setUploadedImages(prev => [...prev, id]);
+        } else {
+            setInspirationImages(prev => [...prev, id]);
+        }
     };
 
-    const handleCropConfirm = async () => {
-        const image = imgRef.current;
-        if (!image || !completedCrop || cropQueue.length === 0) return;
+    const handleCropConfirm = async (cropped: Blob, applyToRemaining: boolean) => {
+        const [currentItem, ...remainingItems] = cropQueue;
+        if (!currentItem) return;
 
-        const canvas = document.createElement('canvas');
-        canvasPreview(image, canvas, completedCrop);
-        const croppedDataUrl = canvas.toDataURL('image/jpeg', 0.9);
-        const currentItem = cropQueue[0];
+        addCroppedImage(currentItem.type, cropped);
+        setAppState('photos-uploaded');
+        if (!applyToRemaining) {
+            setCropQueue(q => q.slice(1));
+            return;
+        }
 
-        if (currentItem.type === 'main') {
-            setUploadedImages(prev => [...prev, croppedDataUrl]);
-        } else {
-            setInspirationImages(prev => [...prev, croppedDataUrl]);
+        // Take the originals now; they are released once they leave the queue
+        const batch = remainingItems.map(item => ({ type: item.type, source: getImageBlob(item.image) }));
+        // Items queued while the batch runs stay in the queue for manual cropping
+        setCropQueue(q => q.slice(1 + remainingItems.length));
+        const aspect = getCropAspect(cropAspectPresetId);
+        const failures: ImageRejection[] = [];
+        for (const [index, item] of batch.entries()) {
+            try {
+                addCroppedImage(item.type, await autoCropImage(item.source, aspect));
+            } catch (err) {
+                console.error("Auto-crop failed:", err);
+                failures.push({ fileName: `Image ${index + 2} of the batch`, reason: "It couldn't be cropped automatically." });
+            }
+        }
+        if (failures.length > 0) {
+            setRejectedFiles(failures);
         }
-        
-        setAppState('photos-uploaded');
-        setCropQueue(q => q.slice(1));
-        setCrop(undefined);
-        setCompletedCrop(undefined);
     };
 
-    const handleCropCancel = () => {
+    const handleCropSkip = () => {
         setCropQueue(q => q.slice(1));
-        setCrop(undefined);
-        setCompletedCrop(undefined);
+    };
+
+    /**
+     * Starts timing a slot's request.
+     * @returns A progress callback for the request. Events from a request the slot has since moved on from are ignored.
+     */
+    const trackSlotProgress = (index: number): ((progress: GenerationProgress) => void) => {
+        const startedAt = Date.now();
+        setSlotProgress(prev => ({ ...prev, [index]: { progress: { stage: 'queued' }, startedAt } }));
+        return progress => setSlotProgress(prev =>
+            prev[index]?.startedAt === startedAt ? { ...prev, [index]: { progress, startedAt } } : prev
+        );
+    };
+
+    /**
+     * Generates one slot's image and scores it. While the score is below the auto-retry
+     * threshold the slot is generated again, and the best-scoring attempt is kept.
+     */
+    const generateScoredVersion = async (
+        variation: SlotVariation | undefined,
+        signal: AbortSignal,
+        scoreResult: (url: ImageId) => Promise<MatchScore>,
+        onProgress: (progress: GenerationProgress) => void
+    ): Promise<ImageVersion> => {
+        const threshold = getStoredAutoRetryThreshold();
+        const template = resolvePromptTemplate(promptTemplateId, customTemplates);
+        const mainImages = uploadedImages.map(getImageBlob);
+        const vibeImages = inspirationImages.map(getImageBlob);
+        let best: ImageVersion | null = null;
+        try {
+            for (let attempt = 0; attempt <= MAX_AUTO_RETRIES; attempt++) {
+                // Retries keep the slot's direction but need a fresh seed, or they would send the same request again
+                const seed = attempt === 0 ? undefined : variation ? variation.seed + attempt : Math.floor(Math.random() * 2 ** 31);
+                const url = addImage(await generateVibeBasedImage(mainImages, vibeImages, userPrompt, { variation, seed, signal, outputSettings, subjectNotes, template, styleControls, onProgress }));
+                onProgress({ stage: 'processing' });
+                const score = await scoreResult(url).catch(err => {
+                    console.warn("Failed to score result:", err);
+                    return undefined;
+                });
+                if (!best || (score && (!best.score || score.overall > best.score.overall))) {
+                    if (best) releaseImage(best.url);
+                    best = { url, createdAt: Date.now(), score };
+                } else {
+                    releaseImage(url);
+                }
+                if (!score || threshold === 0 || score.overall >= threshold) break;
+                if (attempt < MAX_AUTO_RETRIES) {
+                    console.log(`Result scored ${score.overall}, below the auto-retry threshold of ${threshold}. Retrying...`);
+                }
+            }
+        } catch (err) {
+            // The slot fails as a whole, so earlier attempts are dropped too
+            if (best) releaseImage(best.url);
+            throw err;
+        }
+        return best!;
     };
 
     const handleGenerateClick = async () => {
         if (uploadedImages.length === 0 || inspirationImages.length === 0) return;
+        if (isApiKeyMissing()) {
+            setApiKeyMissing(true);
+            setIsSettingsOpen(true);
+            return;
+        }
 
         setAppState('generating');
-        const initialImages: GeneratedImage[] = Array(generationCount).fill({ status: 'pending' });
+        const slotVariations = buildSlotVariations(variationMode, generationCount, parseCustomVariations(customVariations), Date.now());
+        const initialImages: GeneratedImage[] = slotVariations.map(variation => ({ status: 'pending', variation, styleControls, outputSettings }));
         setGeneratedImages(initialImages);
+        setCompareSelection([]);
+        setCurrentRun({
+            id: crypto.randomUUID(),
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            mainImages: uploadedImages,
+            inspirationImages,
+            prompt: userPrompt,
+            subjectNotes,
+            promptTemplateId,
+            styleControls,
+            count: generationCount,
+            variationMode,
+            outputSettings,
+            results: initialImages,
+        });
 
-        const generationPromises = Array(generationCount).fill(null).map((_, index) => 
-            generateVibeBasedImage(uploadedImages, inspirationImages, userPrompt)
-                .then(resultUrl => ({ status: 'done', url: resultUrl } as GeneratedImage))
+        const { signal } = abortControllerRef.current;
+        const session = sessionRef.current;
+        const scoreResult = createMatchScorer(uploadedImages, inspirationImages);
+        const generationPromises = slotVariations.map((variation, index) => 
+            generateScoredVersion(variation, signal, scoreResult, trackSlotProgress(index))
+                .then(version => ({
+                    status: 'done',
+                    url: version.url,
+                    variation,
+                    styleControls,
+                    outputSettings,
+                    versions: [version],
+                    versionIndex: 0,
+                } as GeneratedImage))
                 .catch(err => {
-                    const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
                     console.error(`Failed to generate image slot ${index + 1}:`, err);
-                    return { status: 'error', error: errorMessage } as GeneratedImage;
+                    return { status: 'error', error: toGenerationError(err).toInfo(), variation, styleControls, outputSettings } as GeneratedImage;
                 })
         );
         
         for (let i = 0; i < generationPromises.length; i++) {
             generationPromises[i].then(result => {
+                if (session !== sessionRef.current) {
+                    if (result.url) releaseImage(result.url);
+                    return;
+                }
                 setGeneratedImages(prev => {
                     const newImages = [...prev];
                     newImages[i] = result;
@@ -364,81 +557,290 @@ function App() {
         
         await Promise.all(generationPromises);
         
-        setAppState('results-shown');
+        if (session === sessionRef.current) {
+            setAppState('results-shown');
+        }
     };
 
     const handleRegenerateSlot = async (index: number) => {
         if (uploadedImages.length === 0 || inspirationImages.length === 0) return;
         if (generatedImages[index]?.status === 'pending') return;
+        if (isApiKeyMissing()) {
+            setApiKeyMissing(true);
+            setIsSettingsOpen(true);
+            return;
+        }
         
+        // Regenerating keeps the slot on the same creative direction, and its earlier versions and favorite flag
+        const variation = generatedImages[index]?.variation;
         setGeneratedImages(prev => {
             const newImages = [...prev];
-            newImages[index] = { status: 'pending' };
+            newImages[index] = { ...prev[index], status: 'pending', error: undefined, variation, styleControls, outputSettings };
             return newImages;
         });
 
+        const session = sessionRef.current;
         try {
-            const resultUrl = await generateVibeBasedImage(uploadedImages, inspirationImages, userPrompt);
+            const version = await generateScoredVersion(variation, abortControllerRef.current.signal, createMatchScorer(uploadedImages, inspirationImages), trackSlotProgress(index));
+            if (session !== sessionRef.current) {
+                releaseImage(version.url);
+                return;
+            }
             setGeneratedImages(prev => {
                 const newImages = [...prev];
-                newImages[index] = { status: 'done', url: resultUrl };
+                const versions = [...versionsOf(prev[index]), version];
+                newImages[index] = { ...prev[index], status: 'done', url: version.url, error: undefined, versions, versionIndex: versions.length - 1 };
                 return newImages;
             });
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            if (session !== sessionRef.current) return;
+            const error = toGenerationError(err).toInfo();
             setGeneratedImages(prev => {
                 const newImages = [...prev];
-                newImages[index] = { status: 'error', error: errorMessage };
+                const current = prev[index];
+                // A slot with earlier versions keeps showing them, like a failed edit; one with none becomes an error card
+                newImages[index] = current?.url
+                    ? { ...current, status: 'done', error: error.kind === 'cancelled' ? undefined : error }
+                    : { ...current, status: 'error', error };
                 return newImages;
             });
             console.error(`Failed to regenerate image for slot ${index}:`, err);
         }
     };
     
+    /**
+     * Runs an edit of a slot's current version and appends the result to its version chain.
+     * @param edit Produces the new version from the current one.
+     * @param masked Whether the edit only applied to a painted region.
+     */
+    const editSlot = async (
+        index: number,
+        instruction: string,
+        edit: (source: Blob, onProgress: (progress: GenerationProgress) => void) => Promise<Blob>,
+        masked: boolean = false
+    ) => {
+        const image = generatedImages[index];
+        if (image?.status !== 'done' || !image.url || !instruction.trim()) return;
+        if (isApiKeyMissing()) {
+            setApiKeyMissing(true);
+            setIsSettingsOpen(true);
+            return;
+        }
+
+        setGeneratedImages(prev => {
+            const newImages = [...prev];
+            newImages[index] = { ...prev[index], status: 'pending', error: undefined };
+            return newImages;
+        });
+
+        const session = sessionRef.current;
+        try {
+            const onProgress = trackSlotProgress(index);
+            const resultUrl = addImage(await edit(getImageBlob(image.url), onProgress));
+            onProgress({ stage: 'processing' });
+            const score = await createMatchScorer(uploadedImages, inspirationImages)(resultUrl).catch(err => {
+                console.warn("Failed to score result:", err);
+                return undefined;
+            });
+            if (session !== sessionRef.current) {
+                releaseImage(resultUrl);
+                return;
+            }
+            // Merged into the slot as it is now, so changes made while the edit ran, like a favorite toggle, are kept
+            setGeneratedImages(prev => {
+                const newImages = [...prev];
+                const versions = [
+                    ...versionsOf(prev[index]),
+                    { url: resultUrl, instruction: instruction.trim(), masked: masked || undefined, score, createdAt: Date.now() },
+                ];
+                newImages[index] = { ...prev[index], status: 'done', url: resultUrl, error: undefined, versions, versionIndex: versions.length - 1 };
+                return newImages;
+            });
+        } catch (err) {
+            if (session !== sessionRef.current) return;
+            // A failed or cancelled edit keeps the current version on screen
+            const error = toGenerationError(err).toInfo();
+            setGeneratedImages(prev => {
+                const newImages = [...prev];
+                newImages[index] = { ...prev[index], status: 'done', error: error.kind === 'cancelled' ? undefined : error };
+                return newImages;
+            });
+            console.error(`Failed to ${masked ? 'edit an area of' : 'refine'} image for slot ${index}:`, err);
+        }
+    };
+
+    // Results saved before formats were recorded per slot fall back to their run's
+    const slotOutputSettings = (image: GeneratedImage | undefined) => image?.outputSettings ?? currentRun?.outputSettings;
+
+    // Refinements keep the format the slot was generated at, so its frame doesn't change under it
+    const handleRefineSlot = (index: number, instruction: string) => editSlot(index, instruction, (source, onProgress) =>
+        refineGeneratedImage(source, instruction, uploadedImages.map(getImageBlob), {
+            signal: abortControllerRef.current.signal,
+            outputSettings: slotOutputSettings(generatedImages[index]),
+            subjectNotes,
+            onProgress,
+        })
+    );
+
+    const handleInpaintSlot = (index: number, mask: Blob, instruction: string) => {
+        setMaskEditIndex(null);
+        return editSlot(index, instruction, (source, onProgress) =>
+            inpaintGeneratedImage(source, mask, instruction, uploadedImages.map(getImageBlob), { signal: abortControllerRef.current.signal, subjectNotes, onProgress }),
+            true
+        );
+    };
+
+    const handleToggleFavorite = (index: number) => {
+        setGeneratedImages(prev => {
+            const image = prev[index];
+            if (!image) return prev;
+            const newImages = [...prev];
+            newImages[index] = { ...image, favorite: !image.favorite };
+            return newImages;
+        });
+    };
+
+    const handleToggleCompare = (index: number) => {
+        setCompareSelection(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+    };
+
+    const handleCancelGeneration = () => {
+        abortControllerRef.current.abort();
+        abortControllerRef.current = new AbortController();
+    };
+
+    const handleSelectVersion = (index: number, versionIndex: number) => {
+        setGeneratedImages(prev => {
+            const image = prev[index];
+            const version = image?.versions?.[versionIndex];
+            if (!version || image.status !== 'done') return prev;
+            const newImages = [...prev];
+            newImages[index] = { ...image, url: version.url, versionIndex, error: undefined };
+            return newImages;
+        });
+    };
+
     const handleReset = () => {
+        abortControllerRef.current.abort();
+        abortControllerRef.current = new AbortController();
+        sessionRef.current++;
         setUploadedImages([]);
         setInspirationImages([]);
         setGeneratedImages([]);
+        setCompareSelection([]);
         setUserPrompt('');
+        setSubjectNotes('');
+        setActiveProfileId(null);
+        setCurrentRun(null);
         setAppState('idle');
+        clearSession().catch(err => console.error("Failed to clear session:", err));
+    };
+
+    const handleOpenRun = (storedRun: GenerationRun<StoredImage>) => {
+        const run = importRun(storedRun);
+        setUploadedImages(run.mainImages);
+        setInspirationImages(run.inspirationImages);
+        setUserPrompt(run.prompt);
+        setSubjectNotes(run.subjectNotes ?? '');
+        setActiveProfileId(null);
+        if (run.promptTemplateId) {
+            handleSelectTemplate(resolvePromptTemplate(run.promptTemplateId, customTemplates).id);
+        }
+        setGenerationCount(run.count);
+        setVariationMode(run.variationMode ?? 'none');
+        setOutputSettings(run.outputSettings ?? DEFAULT_OUTPUT_SETTINGS);
+        setStyleControls(run.styleControls ?? DEFAULT_STYLE_CONTROLS);
+        setGeneratedImages(run.results);
+        setCompareSelection([]);
+        setCurrentRun(run);
+        setAppState('results-shown');
+        setIsHistoryOpen(false);
+    };
+
+    const handleSelectTemplate = (id: string) => {
+        setPromptTemplateId(id);
+        setStoredPromptTemplateId(id);
+    };
+
+    const handleCustomTemplatesChange = (templates: PromptTemplate[]) => {
+        setCustomTemplates(templates);
+        setStoredPromptTemplates(templates);
+    };
+
+    const renderTemplatePreview = (template: PromptTemplate) => {
+        const [variation] = buildSlotVariations(variationMode, generationCount, parseCustomVariations(customVariations), 0);
+        return buildVibePrompt(uploadedImages.length, inspirationImages.length, userPrompt, { template, variation, outputSettings, subjectNotes, styleControls });
+    };
+
+    const handleSelectProfile = (profile: SubjectProfile<StoredImage>) => {
+        setUploadedImages(profile.referenceImages.slice(0, MAX_MAIN_IMAGES).map(fromStoredImage));
+        setSubjectNotes(profile.notes);
+        setActiveProfileId(profile.id);
+    };
+
+    const handleApplyPreset = (preset: VibePreset<StoredImage>) => {
+        setInspirationImages(preset.inspirationImages.slice(0, MAX_INSPIRATION_IMAGES).map(fromStoredImage));
+        setUserPrompt(preset.prompt);
+        setIsPresetsOpen(false);
+    };
+
+    const handleRunDeleted = (id: string) => {
+        if (currentRun?.id === id) {
+            setCurrentRun(null);
+        }
     };
 
     const handleDownloadIndividualImage = (index: number) => {
         const image = generatedImages[index];
         if (image?.status === 'done' && image.url) {
-            const link = document.createElement('a');
-            link.href = image.url;
-            link.download = `perfect-shot-${index + 1}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            downloadUrl(image.url, `perfect-shot-${index + 1}.${extensionForMimeType(getImageBlob(image.url).type)}`);
         }
     };
 
-    const handleDownloadAlbum = async () => {
-        setIsDownloading(true);
-        try {
-            const imageData: Record<string, string> = {};
-            generatedImages.forEach((image, index) => {
-                if (image.status === 'done' && image.url) {
-                    imageData[`Result ${index + 1}`] = image.url;
-                }
-            });
+    const albumPhotos: (AlbumPhoto & { isFavorite?: boolean })[] = generatedImages.flatMap((image, index) =>
+        image.status === 'done' && image.url
+            ? [{ url: image.url, caption: image.variation?.label ?? `Result ${index + 1}`, isFavorite: image.favorite }]
+            : []
+    );
 
-            if (Object.keys(imageData).length === 0) {
-                alert("No images have been successfully generated to create an album.");
-                return;
-            }
+    const scoreOf = (image: GeneratedImage) => image.versions?.[image.versionIndex ?? 0]?.score;
 
-            const albumDataUrl = await createAlbumPage(imageData);
+    // Slot indexes in display order; unscored and unfinished slots go last, in their original order
+    const displayOrder = generatedImages.map((_, index) => index);
+    if (sortByMatch) {
+        displayOrder.sort((a, b) => (scoreOf(generatedImages[b])?.overall ?? -1) - (scoreOf(generatedImages[a])?.overall ?? -1) || a - b);
+    }
 
-            const link = document.createElement('a');
-            link.href = albumDataUrl;
-            link.download = 'perfect-shot-album.jpg';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+    const generationPercent = Math.round(100 * runCompletion(generatedImages.map((image, index) => ({ status: image.status, progress: slotProgress[index]?.progress }))));
 
+    // Slots can be regenerated while selected, so only finished results are compared
+    const compareItems: CompareItem[] = compareSelection.flatMap(index => {
+        const image = generatedImages[index];
+        return image?.status === 'done' && image.url
+            ? [{ index, url: image.url, caption: `Result ${index + 1}`, isFavorite: !!image.favorite }]
+            : [];
+    });
+
+    const handleDownloadAlbum = () => {
+        if (albumPhotos.length === 0) {
+            alert("No images have been successfully generated to create an album.");
+            return;
+        }
+        setIsAlbumOpen(true);
+    };
+
+    const handleCreateAlbum = async (photos: AlbumPhoto[], options: AlbumOptions, format: AlbumExportFormat) => {
+        setIsDownloading(true);
+        try {
+            const pages = await createAlbumPages(photos, options);
+            if (format === 'pdf') {
+                downloadBlob(await exportAlbumPdf(pages), 'perfect-shot-album.pdf');
+            } else if (pages.length === 1) {
+                downloadBlob(pages[0], 'perfect-shot-album.jpg');
+            } else {
+                pages.forEach((page, index) => downloadBlob(page, `perfect-shot-album-page-${index + 1}.jpg`));
+            }
+            setIsAlbumOpen(false);
         } catch (error) {
             console.error("Failed to create or download album:", error);
             alert("Sorry, there was an error creating your album. Please try again.");
@@ -447,10 +849,103 @@ function App() {
         }
     };
 
+    const handleDownloadZip = async () => {
+        setIsDownloading(true);
+        try {
+            const zip = await exportResultsZip(generatedImages, {
+                runId: currentRun?.id,
+                createdAt: currentRun?.createdAt,
+                prompt: currentRun?.prompt,
+                variationMode: currentRun?.variationMode,
+                outputSettings: currentRun?.outputSettings,
+                styleControls: currentRun?.styleControls,
+            });
+            downloadBlob(zip, 'perfect-shot-results.zip');
+        } catch (error) {
+            console.error("Failed to create ZIP export:", error);
+            alert("Sorry, there was an error creating your ZIP file. Please try again.");
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
     const isGenerateButtonDisabled = uploadedImages.length === 0 || inspirationImages.length === 0 || appState === 'generating';
 
+    const handleApiKeyChange = () => {
+        setApiKeyMissing(isApiKeyMissing());
+    };
+
     return (
         <main className="bg-gradient-to-br from-pink-400 via-purple-500 to-orange-500 text-white min-h-screen w-full flex flex-col items-center justify-center p-4 pb-24 overflow-y-auto">
+            <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="fixed top-4 right-20 z-40 p-3 bg-black/30 backdrop-blur-sm rounded-full text-white hover:bg-black/50 focus:outline-none focus:ring-2 focus:ring-white transition-colors"
+                aria-label="Open history"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+            </button>
+            <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="fixed top-4 right-4 z-40 p-3 bg-black/30 backdrop-blur-sm rounded-full text-white hover:bg-black/50 focus:outline-none focus:ring-2 focus:ring-white transition-colors"
+                aria-label="Open settings"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+            </button>
+
+            <SettingsPanel
+                isOpen={isSettingsOpen}
+                onClose={() => setIsSettingsOpen(false)}
+                onApiKeyChange={handleApiKeyChange}
+            />
+            <HistoryPanel
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                onOpenRun={handleOpenRun}
+                onRunDeleted={handleRunDeleted}
+                canOpenRuns={appState !== 'generating'}
+            />
+            <AlbumPanel
+                isOpen={isAlbumOpen}
+                onClose={() => setIsAlbumOpen(false)}
+                photos={albumPhotos}
+                seed={currentRun ? hashString(currentRun.id) : 0}
+                isCreating={isDownloading}
+                onCreate={handleCreateAlbum}
+            />
+            <PresetsPanel
+                isOpen={isPresetsOpen}
+                onClose={() => setIsPresetsOpen(false)}
+                currentInspirationImages={inspirationImages}
+                currentPrompt={userPrompt}
+                onApplyPreset={handleApplyPreset}
+            />
+            <MaskEditor
+                imageUrl={maskEditIndex !== null ? generatedImages[maskEditIndex]?.url ?? null : null}
+                onClose={() => setMaskEditIndex(null)}
+                onSubmit={(mask, instruction) => maskEditIndex !== null && handleInpaintSlot(maskEditIndex, mask, instruction)}
+            />
+            <CompareView
+                isOpen={isCompareOpen && compareItems.length >= 2}
+                onClose={() => setIsCompareOpen(false)}
+                items={compareItems}
+                originalUrl={currentRun?.mainImages[0]}
+                onToggleFavorite={handleToggleFavorite}
+            />
+            <PromptTemplateEditor
+                isOpen={isTemplateEditorOpen}
+                onClose={() => setIsTemplateEditorOpen(false)}
+                customTemplates={customTemplates}
+                selectedTemplateId={promptTemplateId}
+                onCustomTemplatesChange={handleCustomTemplatesChange}
+                onSelectTemplate={handleSelectTemplate}
+                renderPreview={renderTemplatePreview}
+            />
+
             <AnimatePresence>
                 {isPasteModalOpen && pastedImages.length > 0 && (
                     <motion.div
@@ -494,46 +989,15 @@ function App() {
                         </motion.div>
                     </motion.div>
                 )}
-
-                {cropQueue.length > 0 && (
-                    <motion.div
-                        className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 1 }}
-                        exit={{ opacity: 0 }}
-                    >
-                        <motion.div
-                            className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 w-full max-w-lg flex flex-col items-center gap-4"
-                            initial={{ scale: 0.9, opacity: 0 }}
-                            animate={{ scale: 1, opacity: 1 }}
-                            exit={{ scale: 0.9, opacity: 0 }}
-                        >
-                            <h2 className="text-2xl font-bold text-white">Crop Your Image</h2>
-                            <div className="max-h-[60vh] overflow-hidden">
-                                <ReactCrop
-                                    crop={crop}
-                                    onChange={(_, percentCrop) => setCrop(percentCrop)}
-                                    onComplete={(c) => setCompletedCrop(c)}
-                                    aspect={1}
-                                    className="max-h-full"
-                                >
-                                    <img 
-                                      ref={imgRef} 
-                                      src={cropQueue[0].dataUrl} 
-                                      onLoad={onImageLoad} 
-                                      alt="Image to crop"
-                                      className="max-h-[60vh] object-contain"
-                                    />
-                                </ReactCrop>
-                            </div>
-                            <div className="flex gap-4 mt-2">
-                                <button onClick={handleCropCancel} className={secondaryButtonClasses}>Skip</button>
-                                <button onClick={handleCropConfirm} className={primaryButtonClasses}>Crop & Save</button>
-                            </div>
-                        </motion.div>
-                    </motion.div>
-                )}
             </AnimatePresence>
+            <CropModal
+                imageUrl={cropQueue[0]?.image ?? null}
+                remainingCount={Math.max(0, cropQueue.length - 1)}
+                aspectPresetId={cropAspectPresetId}
+                onAspectPresetChange={setCropAspectPresetId}
+                onConfirm={handleCropConfirm}
+                onSkip={handleCropSkip}
+            />
 
             {appState === 'idle' ? (
                 <LandingPage onGetStarted={() => setAppState('photos-uploaded')} />
@@ -550,53 +1014,92 @@ function App() {
                             initial={{ opacity: 0, y: 20 }}
                             animate={{ opacity: 1, y: 0 }}
                          >
+                            {apiKeyMissing && (
+                                <div className="w-full flex flex-col sm:flex-row items-center justify-between gap-4 p-4 bg-black/30 border border-yellow-300/60 rounded-2xl" role="alert">
+                                    <p className="text-yellow-100">You need a Gemini API key before you can generate images.</p>
+                                    <button onClick={() => setIsSettingsOpen(true)} className={fileInputButtonClasses}>
+                                        Add API Key
+                                    </button>
+                                </div>
+                            )}
+                            {rejectedFiles.length > 0 && (
+                                <div className="w-full flex items-start justify-between gap-4 p-4 bg-black/30 border border-red-400/60 rounded-2xl" role="alert">
+                                    <div className="text-red-100">
+                                        <p className="font-semibold">{rejectedFiles.length === 1 ? "1 file couldn't be added:" : `${rejectedFiles.length} files couldn't be added:`}</p>
+                                        <ul className="mt-1 text-sm list-disc list-inside">
+                                            {rejectedFiles.map((rejection, index) => (
+                                                <li key={index}><span className="font-medium">{rejection.fileName}</span> — {rejection.reason}</li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                    <button onClick={() => setRejectedFiles([])} className="text-red-100 hover:text-white text-xl leading-none" aria-label="Dismiss">&times;</button>
+                                </div>
+                            )}
                             <div className="w-full flex flex-col lg:flex-row gap-8 items-start">
                                 <div className="flex-1 w-full flex flex-col items-center gap-4 p-6 bg-white/10 rounded-2xl">
                                     <h2 className="text-2xl font-bold text-white">1. Upload Your Photos</h2>
-                                    <div className="w-full min-h-[200px] bg-black/20 rounded-lg p-3 grid grid-cols-3 gap-3">
-                                        <AnimatePresence>
-                                            {uploadedImages.map((src, index) => (
-                                                <motion.div key={src.slice(0, 30) + index} className="relative aspect-square" layout
-                                                    initial={{ opacity: 0, scale: 0.5 }}
-                                                    animate={{ opacity: 1, scale: 1 }}
-                                                    exit={{ opacity: 0, scale: 0.5 }}
-                                                >
-                                                    <img src={src} className="w-full h-full object-cover rounded-md" alt={`Your Photo ${index + 1}`}/>
-                                                    <button onClick={() => removeMainImage(index)} className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full h-5 w-5 flex items-center justify-center text-xs font-bold">&times;</button>
-                                                </motion.div>
-                                            ))}
-                                        </AnimatePresence>
-                                    </div>
+                                    <SubjectProfilePicker
+                                        currentImages={uploadedImages}
+                                        currentNotes={subjectNotes}
+                                        activeProfileId={activeProfileId}
+                                        onSelectProfile={handleSelectProfile}
+                                        onProfileSaved={(profile) => setActiveProfileId(profile.id)}
+                                        onProfileDeleted={(id) => setActiveProfileId(prev => (prev === id ? null : prev))}
+                                    />
+                                    <ImageDropGrid
+                                        list="main"
+                                        images={uploadedImages}
+                                        altPrefix="Your Photo"
+                                        primaryLabel="Primary"
+                                        onRemove={removeMainImage}
+                                        onFilesDropped={(files) => queueFilesForCropping(files, 'main')}
+                                        onMoveImage={handleMoveImage}
+                                    />
+                                    {uploadedImages.length > 1 && (
+                                        <p className="text-sm text-neutral-300 text-center">The first photo is the primary reference. Drag to reorder.</p>
+                                    )}
+                                    {uploadedImages.length > 0 && (
+                                        <p className="text-sm text-neutral-300">Upload size: {formatBytes(totalImageBytes(uploadedImages))}</p>
+                                    )}
                                     {uploadedImages.length < MAX_MAIN_IMAGES && (
                                         <label htmlFor="main-file-upload" className={fileInputButtonClasses}>
                                             Add Your Photos ({uploadedImages.length}/{MAX_MAIN_IMAGES})
                                         </label>
                                     )}
-                                    <input id="main-file-upload" type="file" multiple className="hidden" accept="image/png, image/jpeg, image/webp" onChange={(e) => handleImageUpload(e, 'main')} disabled={uploadedImages.length >= MAX_MAIN_IMAGES}/>
+                                    <textarea
+                                        value={subjectNotes}
+                                        onChange={(e) => setSubjectNotes(e.target.value)}
+                                        placeholder="(Optional) Notes about this person, e.g. freckles, round glasses, curly red hair"
+                                        className="w-full h-16 bg-black/20 rounded-lg p-3 text-sm text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400 transition-all"
+                                        aria-label="Notes about the person in your photos"
+                                    />
+                                    <input id="main-file-upload" type="file" multiple className="hidden" accept={ACCEPTED_UPLOAD_TYPES} onChange={(e) => handleImageUpload(e, 'main')} disabled={uploadedImages.length >= MAX_MAIN_IMAGES}/>
                                 </div>
 
                                 <div className="flex-1 w-full flex flex-col items-center gap-4 p-6 bg-white/10 rounded-2xl">
                                     <h2 className="text-2xl font-bold text-white">2. Upload Vibe Photos</h2>
-                                    <div className="w-full min-h-[200px] bg-black/20 rounded-lg p-3 grid grid-cols-3 gap-3">
-                                        <AnimatePresence>
-                                            {inspirationImages.map((src, index) => (
-                                                <motion.div key={src.slice(0, 30) + index} className="relative aspect-square" layout
-                                                    initial={{ opacity: 0, scale: 0.5 }}
-                                                    animate={{ opacity: 1, scale: 1 }}
-                                                    exit={{ opacity: 0, scale: 0.5 }}
-                                                >
-                                                    <img src={src} className="w-full h-full object-cover rounded-md" alt={`Inspiration ${index + 1}`}/>
-                                                    <button onClick={() => removeInspirationImage(index)} className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full h-5 w-5 flex items-center justify-center text-xs font-bold">&times;</button>
-                                                </motion.div>
-                                            ))}
-                                        </AnimatePresence>
-                                    </div>
-                                    {inspirationImages.length < MAX_INSPIRATION_IMAGES && (
-                                        <label htmlFor="inspiration-file-upload" className={fileInputButtonClasses}>
-                                            Add Photos ({inspirationImages.length}/{MAX_INSPIRATION_IMAGES})
-                                        </label>
+                                    <ImageDropGrid
+                                        list="inspiration"
+                                        images={inspirationImages}
+                                        altPrefix="Inspiration"
+                                        onRemove={removeInspirationImage}
+                                        onFilesDropped={(files) => queueFilesForCropping(files, 'inspiration')}
+                                        onMoveImage={handleMoveImage}
+                                    />
+                                    {inspirationImages.length > 0 && (
+                                        <p className="text-sm text-neutral-300">Upload size: {formatBytes(totalImageBytes(inspirationImages))}</p>
                                     )}
-                                    <input id="inspiration-file-upload" type="file" multiple className="hidden" accept="image/png, image/jpeg, image/webp" onChange={(e) => handleImageUpload(e, 'inspiration')} disabled={inspirationImages.length >= MAX_INSPIRATION_IMAGES}/>
+                                    <div className="flex flex-wrap justify-center gap-3">
+                                        {inspirationImages.length < MAX_INSPIRATION_IMAGES && (
+                                            <label htmlFor="inspiration-file-upload" className={fileInputButtonClasses}>
+                                                Add Photos ({inspirationImages.length}/{MAX_INSPIRATION_IMAGES})
+                                            </label>
+                                        )}
+                                        <button onClick={() => setIsPresetsOpen(true)} className={fileInputButtonClasses}>
+                                            Presets
+                                        </button>
+                                    </div>
+                                    <input id="inspiration-file-upload" type="file" multiple className="hidden" accept={ACCEPTED_UPLOAD_TYPES} onChange={(e) => handleImageUpload(e, 'inspiration')} disabled={inspirationImages.length >= MAX_INSPIRATION_IMAGES}/>
                                 </div>
                             </div>
                             
@@ -609,6 +1112,46 @@ function App() {
                                      className="w-full h-24 bg-black/20 rounded-lg p-3 text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400 transition-all"
                                      aria-label="Additional instructions for image generation"
                                  />
+                                 <div className="w-full flex flex-col sm:flex-row sm:items-center gap-3">
+                                     <label htmlFor="prompt-template" className="font-semibold">Prompt mode</label>
+                                     <select
+                                         id="prompt-template"
+                                         value={resolvePromptTemplate(promptTemplateId, customTemplates).id}
+                                         onChange={(e) => handleSelectTemplate(e.target.value)}
+                                         className="flex-1 bg-black/20 rounded-lg p-3 text-white focus:outline-none focus:ring-2 focus:ring-orange-400"
+                                     >
+                                         {[...BUILT_IN_TEMPLATES, ...customTemplates].map(template => (
+                                             <option key={template.id} value={template.id} className="text-black">{template.name || 'Untitled'}</option>
+                                         ))}
+                                     </select>
+                                     <button onClick={() => setIsTemplateEditorOpen(true)} className="text-sm text-neutral-300 hover:text-white underline">
+                                         Edit templates
+                                     </button>
+                                 </div>
+                                 <div className="w-full grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                     {STYLE_CONTROL_SLIDERS.map(slider => (
+                                         <div key={slider.key} className="flex flex-col gap-1">
+                                             <label htmlFor={`style-control-${slider.key}`} className="font-semibold flex justify-between">
+                                                 {slider.label}
+                                                 <span className="tabular-nums">{styleControls[slider.key]}</span>
+                                             </label>
+                                             <input
+                                                 id={`style-control-${slider.key}`}
+                                                 type="range"
+                                                 min="0"
+                                                 max="100"
+                                                 step="5"
+                                                 value={styleControls[slider.key]}
+                                                 onChange={(e) => setStyleControls(prev => ({ ...prev, [slider.key]: Number(e.target.value) }))}
+                                                 className="w-full h-2 bg-black/30 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                                             />
+                                             <span className="flex justify-between text-xs text-neutral-300">
+                                                 <span>{slider.minLabel}</span>
+                                                 <span>{slider.maxLabel}</span>
+                                             </span>
+                                         </div>
+                                     ))}
+                                 </div>
                             </div>
                             
                             <div className="w-full flex flex-col items-center gap-4 p-6 bg-white/10 rounded-2xl">
@@ -625,6 +1168,70 @@ function App() {
                                     />
                                     <span className="text-2xl font-bold w-12 text-center select-none">{generationCount}</span>
                                 </div>
+                                <div className="w-full flex flex-col gap-3 px-2">
+                                    <label htmlFor="variation-mode" className="font-semibold">Variation</label>
+                                    <select
+                                        id="variation-mode"
+                                        value={variationMode}
+                                        onChange={(e) => setVariationMode(e.target.value as VariationMode)}
+                                        className="w-full bg-black/20 rounded-lg p-3 text-white focus:outline-none focus:ring-2 focus:ring-orange-400"
+                                    >
+                                        {VARIATION_MODES.map(mode => (
+                                            <option key={mode.value} value={mode.value} className="text-black">{mode.label}</option>
+                                        ))}
+                                    </select>
+                                    {variationMode === 'custom' && (
+                                        <textarea
+                                            value={customVariations}
+                                            onChange={(e) => setCustomVariations(e.target.value)}
+                                            placeholder={"One variation per line, e.g.\nsitting at a cafe table\ndancing in the rain\nblack and white film look"}
+                                            className="w-full h-28 bg-black/20 rounded-lg p-3 text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400 transition-all"
+                                            aria-label="Custom variations, one per line"
+                                        />
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="w-full flex flex-col items-center gap-4 p-6 bg-white/10 rounded-2xl">
+                                <h2 className="text-2xl font-bold text-white">5. Output Format</h2>
+                                <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label="Output aspect ratio">
+                                    {OUTPUT_ASPECT_RATIOS.map(option => (
+                                        <button
+                                            key={option.value}
+                                            role="radio"
+                                            aria-checked={outputSettings.aspectRatio === option.value}
+                                            onClick={() => setOutputSettings(prev => ({ ...prev, aspectRatio: option.value }))}
+                                            className={cn(
+                                                "font-semibold py-1 px-4 rounded-full border-2 transition-colors",
+                                                outputSettings.aspectRatio === option.value ? "bg-orange-500 border-orange-500" : "border-white/60 hover:bg-white/20"
+                                            )}
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="w-full flex flex-col sm:flex-row gap-3 px-2">
+                                    <select
+                                        value={outputSettings.size}
+                                        onChange={(e) => setOutputSettings(prev => ({ ...prev, size: e.target.value as OutputSize }))}
+                                        className="w-full bg-black/20 rounded-lg p-3 text-white focus:outline-none focus:ring-2 focus:ring-orange-400"
+                                        aria-label="Output size"
+                                    >
+                                        {OUTPUT_SIZES.map(option => (
+                                            <option key={option.value} value={option.value} className="text-black">{option.label}</option>
+                                        ))}
+                                    </select>
+                                    <select
+                                        value={outputSettings.fit}
+                                        onChange={(e) => setOutputSettings(prev => ({ ...prev, fit: e.target.value as OutputFit }))}
+                                        className="w-full bg-black/20 rounded-lg p-3 text-white focus:outline-none focus:ring-2 focus:ring-orange-400"
+                                        aria-label="How to fit results to the ratio"
+                                    >
+                                        {OUTPUT_FITS.map(option => (
+                                            <option key={option.value} value={option.value} className="text-black">{option.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
                             </div>
                         </motion.div>
                     )}
@@ -634,31 +1241,67 @@ function App() {
                              <button onClick={handleGenerateClick} className={primaryButtonClasses} disabled={isGenerateButtonDisabled}>
                                 Generate ({generationCount} Image{generationCount > 1 ? 's' : ''})
                             </button>
+                            {(uploadedImages.length > 0 || inspirationImages.length > 0) && (
+                                <p className="text-sm text-neutral-200 text-center mt-2">
+                                    {formatBytes(totalImageBytes([...uploadedImages, ...inspirationImages]))} of images per request
+                                </p>
+                            )}
                         </div>
                     )}
 
 
                     {(appState === 'generating' || appState === 'results-shown') && (
                          <>
+                            {appState === 'results-shown' && generatedImages.some(image => scoreOf(image)) && (
+                                <label className="flex items-center gap-2 font-semibold cursor-pointer mt-4">
+                                    <input
+                                        type="checkbox"
+                                        checked={sortByMatch}
+                                        onChange={(e) => setSortByMatch(e.target.checked)}
+                                        className="accent-orange-500"
+                                    />
+                                    Sort by best match
+                                </label>
+                            )}
                             <div className="w-full max-w-7xl grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8 mt-4 px-4">
-                                {generatedImages.map((image, index) => (
-                                    <motion.div 
-                                        key={index}
-                                        className="flex justify-center"
-                                        initial={{ opacity: 0, y: 50 }}
-                                        animate={{ opacity: 1, y: 0 }}
-                                        transition={{ duration: 0.5, delay: index * 0.1 }}
-                                    >
-                                         <PhotoCard
-                                            caption={`Result ${index + 1}`}
-                                            status={image.status}
-                                            imageUrl={image.url}
-                                            error={image.error}
-                                            onRegenerate={() => handleRegenerateSlot(index)}
-                                            onDownload={() => handleDownloadIndividualImage(index)}
-                                        />
-                                    </motion.div>
-                                ))}
+                                {displayOrder.map((index, position) => {
+                                    const image = generatedImages[index];
+                                    return (
+                                        <motion.div 
+                                            key={index}
+                                            layout
+                                            className="flex justify-center"
+                                            initial={{ opacity: 0, y: 50 }}
+                                            animate={{ opacity: 1, y: 0 }}
+                                            transition={{ duration: 0.5, delay: position * 0.1 }}
+                                        >
+                                             <PhotoCard
+                                                caption={`Result ${index + 1}`}
+                                                variationLabel={image.variation?.label}
+                                                styleControls={image.styleControls}
+                                                status={image.status}
+                                                progress={slotProgress[index]?.progress}
+                                                startedAt={slotProgress[index]?.startedAt}
+                                                imageUrl={image.url}
+                                                error={image.error}
+                                                onRegenerate={() => handleRegenerateSlot(index)}
+                                                onRefine={(instruction) => handleRefineSlot(index, instruction)}
+                                                onEditArea={() => setMaskEditIndex(index)}
+                                                versions={image.versions}
+                                                versionIndex={image.versionIndex}
+                                                onSelectVersion={(versionIndex) => handleSelectVersion(index, versionIndex)}
+                                                onEditInputs={appState === 'results-shown' ? () => setAppState('photos-uploaded') : undefined}
+                                                onDownload={() => handleDownloadIndividualImage(index)}
+                                                aspectRatio={aspectRatioValue((slotOutputSettings(image) ?? DEFAULT_OUTPUT_SETTINGS).aspectRatio)}
+                                                isFavorite={!!image.favorite}
+                                                onToggleFavorite={() => handleToggleFavorite(index)}
+                                                isSelected={compareSelection.includes(index)}
+                                                onToggleSelected={() => handleToggleCompare(index)}
+                                                matchScore={image.status === 'done' ? scoreOf(image) : undefined}
+                                            />
+                                        </motion.div>
+                                    );
+                                })}
                             </div>
                              <div className="h-20 mt-8 flex items-center justify-center">
                                 {appState === 'results-shown' && (
@@ -675,15 +1318,45 @@ function App() {
                                         >
                                             {isDownloading ? 'Creating Album...' : 'Download Album'}
                                         </button>
+                                        <button
+                                            onClick={() => setIsCompareOpen(true)}
+                                            disabled={compareItems.length < 2}
+                                            title={compareItems.length < 2 ? "Tick Compare on two or more results" : undefined}
+                                            className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                        >
+                                            Compare{compareItems.length > 0 ? ` (${compareItems.length})` : ''}
+                                        </button>
+                                        <button
+                                            onClick={handleDownloadZip}
+                                            disabled={isDownloading || albumPhotos.length === 0}
+                                            className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                        >
+                                            Download All (ZIP)
+                                        </button>
                                         <button onClick={handleReset} className={secondaryButtonClasses}>
                                             Start Over
                                         </button>
                                     </motion.div>
                                 )}
                                  {appState === 'generating' && (
-                                     <div className="text-center">
+                                     <div className="text-center flex flex-col items-center">
                                          <p className="text-xl font-semibold animate-pulse">Analyzing the vibe and generating your shots...</p>
-                                         <p className="text-neutral-300 mt-1">This may take a moment.</p>
+                                         <div
+                                             className="w-64 h-2 mt-3 bg-white/20 rounded-full overflow-hidden"
+                                             role="progressbar"
+                                             aria-label="Generation progress"
+                                             aria-valuemin={0}
+                                             aria-valuemax={100}
+                                             aria-valuenow={generationPercent}
+                                         >
+                                             <div className="h-full bg-orange-500 transition-all duration-500" style={{ width: `${generationPercent}%` }} />
+                                         </div>
+                                         <p className="text-neutral-300 mt-1 text-sm">
+                                             {generatedImages.filter(image => image.status !== 'pending').length} of {generatedImages.length} done
+                                         </p>
+                                         <button onClick={handleCancelGeneration} className="mt-3 text-sm font-semibold text-white bg-white/10 border border-white/60 py-1 px-4 rounded-full transition-colors duration-200 hover:bg-white hover:text-black">
+                                             Cancel generation
+                                         </button>
                                      </div>
                                  )}
                             </div>
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ALBUM_LAYOUTS, DEFAULT_ALBUM_OPTIONS, type AlbumLayout, type AlbumOptions, type AlbumPhoto } from '../lib/albumUtils';
+import type { AlbumExportFormat } from '../lib/export';
+import { cn } from '../lib/utils';
+
+interface AlbumPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** The photos to include, with the caption each starts with. */
+    photos: (AlbumPhoto & { isFavorite?: boolean })[];
+    /** Seeds the layout so reopening the panel for the same run gives the same album. */
+    seed: number;
+    isCreating: boolean;
+    onCreate: (photos: AlbumPhoto[], options: AlbumOptions, format: AlbumExportFormat) => void;
+}
+
+const inputClasses = "w-full bg-black/20 rounded-lg p-3 text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400 transition-all";
+
+const AlbumPanel: React.FC<AlbumPanelProps> = ({ isOpen, onClose, photos, seed, isCreating, onCreate }) => {
+    const [layout, setLayout] = useState<AlbumLayout>(DEFAULT_ALBUM_OPTIONS.layout);
+    const [title, setTitle] = useState<string>(DEFAULT_ALBUM_OPTIONS.title);
+    const [subtitle, setSubtitle] = useState<string>(DEFAULT_ALBUM_OPTIONS.subtitle);
+    const [showCaptions, setShowCaptions] = useState<boolean>(DEFAULT_ALBUM_OPTIONS.showCaptions);
+    const [captions, setCaptions] = useState<string[]>([]);
+    const [format, setFormat] = useState<AlbumExportFormat>('jpeg');
+    const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+
+    const favoriteCount = photos.filter(photo => photo.isFavorite).length;
+
+    // Only reset captions when the panel opens, not while the user is editing them
+    useEffect(() => {
+        if (isOpen) {
+            setCaptions(photos.map(photo => photo.caption ?? ''));
+            setFavoritesOnly(favoriteCount > 0);
+        }
+    }, [isOpen]);
+
+    // Indexes into `photos`, so captions stay attached to the right photo when filtering
+    const includedIndexes = photos.flatMap((photo, index) => (!favoritesOnly || photo.isFavorite ? [index] : []));
+
+    const photosPerPage = ALBUM_LAYOUTS.find(option => option.value === layout)?.photosPerPage ?? 6;
+    const pageCount = Math.max(1, Math.ceil(includedIndexes.length / photosPerPage));
+
+    const handleCreate = () => {
+        onCreate(
+            includedIndexes.map(index => ({ url: photos[index].url, caption: captions[index] })),
+            { layout, title: title.trim(), subtitle: subtitle.trim(), showCaptions, seed },
+            format
+        );
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <motion.div
+                        className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto flex flex-col gap-4 text-white"
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                    >
+                        <h2 className="text-2xl font-bold text-center">Create Album</h2>
+                        <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label="Album layout">
+                            {ALBUM_LAYOUTS.map(option => (
+                                <button
+                                    key={option.value}
+                                    role="radio"
+                                    aria-checked={layout === option.value}
+                                    onClick={() => setLayout(option.value)}
+                                    className={cn(
+                                        "text-sm font-semibold py-1 px-4 rounded-full border-2 transition-colors",
+                                        layout === option.value ? "bg-orange-500 border-orange-500" : "border-white/60 hover:bg-white/20"
+                                    )}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        <label className={cn("flex items-center gap-2 font-semibold cursor-pointer", favoriteCount === 0 && "opacity-50 cursor-not-allowed")}>
+                            <input
+                                type="checkbox"
+                                checked={favoritesOnly}
+                                onChange={(e) => setFavoritesOnly(e.target.checked)}
+                                disabled={favoriteCount === 0}
+                                className="accent-orange-500"
+                            />
+                            Favorites only ({favoriteCount} starred)
+                        </label>
+                        <p className="text-sm text-neutral-300 text-center">
+                            {includedIndexes.length} photo{includedIndexes.length === 1 ? '' : 's'} on {pageCount} page{pageCount === 1 ? '' : 's'}
+                        </p>
+                        <input
+                            type="text"
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            placeholder="Album title"
+                            className={inputClasses}
+                            aria-label="Album title"
+                        />
+                        <input
+                            type="text"
+                            value={subtitle}
+                            onChange={(e) => setSubtitle(e.target.value)}
+                            placeholder="Subtitle (optional)"
+                            className={inputClasses}
+                            aria-label="Album subtitle"
+                        />
+                        <label className="flex items-center gap-2 font-semibold cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={showCaptions}
+                                onChange={(e) => setShowCaptions(e.target.checked)}
+                                className="accent-orange-500"
+                            />
+                            Show captions
+                        </label>
+                        {showCaptions && (
+                            <div className="flex flex-col gap-2">
+                                {includedIndexes.map(index => (
+                                    <div key={index} className="flex items-center gap-3">
+                                        <img src={photos[index].url} alt="" className="h-12 w-12 object-cover rounded-md flex-shrink-0" />
+                                        <input
+                                            type="text"
+                                            value={captions[index] ?? ''}
+                                            onChange={(e) => setCaptions(prev => prev.map((caption, i) => (i === index ? e.target.value : caption)))}
+                                            placeholder="No caption"
+                                            className="w-full bg-black/20 rounded-lg px-3 py-2 text-sm text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400"
+                                            aria-label={`Caption for photo ${index + 1}`}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <select
+                            value={format}
+                            onChange={(e) => setFormat(e.target.value as AlbumExportFormat)}
+                            className="w-full bg-black/20 rounded-lg p-3 text-white focus:outline-none focus:ring-2 focus:ring-orange-400"
+                            aria-label="Album file format"
+                        >
+                            <option value="jpeg" className="text-black">JPEG image per page</option>
+                            <option value="pdf" className="text-black">Print-ready PDF (A4)</option>
+                        </select>
+                        <div className="flex gap-4 justify-center mt-2">
+                            <button
+                                onClick={handleCreate}
+                                disabled={isCreating || includedIndexes.length === 0}
+                                className="font-semibold text-white bg-orange-500 py-2 px-6 rounded-full transition-transform duration-200 hover:scale-105 hover:bg-orange-600 disabled:bg-neutral-400 disabled:cursor-not-allowed disabled:scale-100"
+                            >
+                                {isCreating ? 'Creating Album...' : format === 'pdf' ? 'Download PDF' : pageCount > 1 ? `Download ${pageCount} Pages` : 'Download Album'}
+                            </button>
+                        </div>
+                        <button onClick={onClose} className="mt-2 text-neutral-300 hover:text-white transition-colors">Close</button>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default AlbumPanel;
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+
+export interface CompareItem {
+    /** The result's slot index, passed back to `onToggleFavorite`. */
+    index: number;
+    url: string;
+    caption: string;
+    isFavorite: boolean;
+}
+
+interface CompareViewProps {
+    isOpen: boolean;
+    onClose: () => void;
+    items: CompareItem[];
+    /** The primary main photo, shown on the "before" side of each slider. */
+    originalUrl?: string;
+    onToggleFavorite: (index: number) => void;
+}
+
+const ComparePane: React.FC<{ item: CompareItem; originalUrl?: string; onToggleFavorite: (index: number) => void }> = ({ item, originalUrl, onToggleFavorite }) => {
+    // Percentage of the frame, from the left, that shows the original photo
+    const [split, setSplit] = useState<number>(0);
+
+    return (
+        <div className="flex-1 min-w-0 min-h-0 flex flex-col gap-2">
+            <div className="relative flex-1 min-h-0 bg-black/40 rounded-lg overflow-hidden select-none">
+                <img src={item.url} alt={item.caption} className="absolute inset-0 w-full h-full object-contain" />
+                {originalUrl && split > 0 && (
+                    <>
+                        <img
+                            src={originalUrl}
+                            alt="Original"
+                            className="absolute inset-0 w-full h-full object-contain bg-neutral-900"
+                            style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+                        />
+                        <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${split}%` }} />
+                    </>
+                )}
+                <button
+                    onClick={() => onToggleFavorite(item.index)}
+                    className={cn("absolute top-2 left-2 p-2 rounded-full bg-black/50 hover:bg-black/75 text-2xl leading-none", item.isFavorite ? "text-yellow-400" : "text-white")}
+                    aria-label={item.isFavorite ? `Remove ${item.caption} from favorites` : `Add ${item.caption} to favorites`}
+                    aria-pressed={item.isFavorite}
+                >
+                    {item.isFavorite ? '★' : '☆'}
+                </button>
+            </div>
+            <div className="flex items-center gap-3 text-white">
+                <span className="font-semibold whitespace-nowrap">{item.caption}</span>
+                {originalUrl && (
+                    <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={split}
+                        onChange={(e) => setSplit(Number(e.target.value))}
+                        className="flex-1 h-2 bg-black/30 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                        aria-label={`Compare ${item.caption} with the original photo`}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ isOpen, onClose, items, originalUrl, onToggleFavorite }) => {
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/90 z-50 p-4 flex flex-col gap-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <div className="flex items-center justify-between text-white">
+                        <h2 className="text-2xl font-bold">Compare</h2>
+                        {originalUrl && (
+                            <p className="hidden sm:block text-sm text-neutral-300">Drag a slider to reveal the original photo.</p>
+                        )}
+                        <button onClick={onClose} className="text-neutral-300 hover:text-white transition-colors">Close</button>
+                    </div>
+                    <div className={cn("flex-1 min-h-0 grid auto-rows-fr gap-4", items.length > 2 ? "grid-cols-2 lg:grid-cols-4" : "grid-cols-1 sm:grid-cols-2")}>
+                        {items.map(item => (
+                            <ComparePane key={item.index} item={item} originalUrl={originalUrl} onToggleFavorite={onToggleFavorite} />
+                        ))}
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default CompareView;
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ReactCrop, { type PercentCrop, convertToPixelCrop } from 'react-image-crop';
+import type { SourceRegion } from '../lib/imagePreparation';
+import { prepareImageRegion } from '../lib/imageProcessing';
+import { getImageBlob } from '../lib/imageStore';
+import { CROP_ASPECT_PRESETS, cropAroundFocus, detectFocusArea, getCropAspect, type CropAspectPresetId, type FocusArea } from '../lib/autoCrop';
+import { cn } from '../lib/utils';
+import type { ImageId } from '../types';
+
+interface CropModalProps {
+    /** The image at the front of the crop queue, or null when the queue is empty. */
+    imageUrl: ImageId | null;
+    /** Queued images after this one. */
+    remainingCount: number;
+    aspectPresetId: CropAspectPresetId;
+    onAspectPresetChange: (id: CropAspectPresetId) => void;
+    /**
+     * Called with the cropped image. When `applyToRemaining` is set, the rest of the
+     * queue should be cropped automatically with the same aspect preset.
+     */
+    onConfirm: (cropped: Blob, applyToRemaining: boolean) => void;
+    onSkip: () => void;
+}
+
+const FOCUS_DESCRIPTIONS: Record<FocusArea['source'], string> = {
+    face: 'Centered on the detected face.',
+    saliency: 'Centered on the main subject.',
+    center: 'Centered on the image.',
+};
+
+function regionToPercentCrop(region: SourceRegion, imageWidth: number, imageHeight: number): PercentCrop {
+    return {
+        unit: '%',
+        x: (region.x / imageWidth) * 100,
+        y: (region.y / imageHeight) * 100,
+        width: (region.width / imageWidth) * 100,
+        height: (region.height / imageHeight) * 100,
+    };
+}
+
+const CropModal: React.FC<CropModalProps> = ({ imageUrl, remainingCount, aspectPresetId, onAspectPresetChange, onConfirm, onSkip }) => {
+    const [crop, setCrop] = useState<PercentCrop>();
+    const [focus, setFocus] = useState<FocusArea | null>(null);
+    const [applyToRemaining, setApplyToRemaining] = useState<boolean>(false);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const imgRef = useRef<HTMLImageElement>(null);
+    const aspect = getCropAspect(aspectPresetId);
+
+    useEffect(() => {
+        setCrop(undefined);
+        setFocus(null);
+    }, [imageUrl]);
+
+    useEffect(() => {
+        if (remainingCount === 0) setApplyToRemaining(false);
+    }, [remainingCount]);
+
+    const suggestCrop = (focusArea: FocusArea, presetAspect: number | undefined) => {
+        const image = imgRef.current;
+        if (!image) return;
+        const { naturalWidth, naturalHeight } = image;
+        setCrop(regionToPercentCrop(cropAroundFocus(focusArea, naturalWidth, naturalHeight, presetAspect), naturalWidth, naturalHeight));
+    };
+
+    const onImageLoad = async (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const image = e.currentTarget;
+        // Show a centered crop straight away; detection can take a moment
+        const centered: FocusArea = { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight, source: 'center' };
+        suggestCrop(centered, aspect);
+
+        const detected = await detectFocusArea(image);
+        if (imgRef.current !== image || image.src !== imageUrl) return;
+        setFocus(detected);
+        suggestCrop(detected, aspect);
+    };
+
+    const handleAspectChange = (id: CropAspectPresetId) => {
+        onAspectPresetChange(id);
+        const image = imgRef.current;
+        if (!image) return;
+        suggestCrop(focus ?? { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight, source: 'center' }, getCropAspect(id));
+    };
+
+    const handleConfirm = async () => {
+        const image = imgRef.current;
+        if (!imageUrl || !image || !crop || crop.width === 0 || crop.height === 0) return;
+        // Percent crops map straight onto the image's natural pixels
+        const region = convertToPixelCrop(crop, image.naturalWidth, image.naturalHeight);
+        setIsSaving(true);
+        try {
+            const { blob } = await prepareImageRegion(getImageBlob(imageUrl), region);
+            onConfirm(blob, applyToRemaining);
+        } catch (error) {
+            console.error("Failed to crop image:", error);
+            alert("Sorry, this image couldn't be cropped. Try again or skip it.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {imageUrl && (
+                <motion.div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <motion.div
+                        className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 w-full max-w-lg flex flex-col items-center gap-4 text-white"
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                    >
+                        <h2 className="text-2xl font-bold">Crop Your Image</h2>
+                        <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label="Aspect ratio">
+                            {CROP_ASPECT_PRESETS.map(preset => (
+                                <button
+                                    key={preset.id}
+                                    role="radio"
+                                    aria-checked={preset.id === aspectPresetId}
+                                    onClick={() => handleAspectChange(preset.id)}
+                                    className={cn(
+                                        "text-sm font-semibold py-1 px-4 rounded-full border-2 transition-colors",
+                                        preset.id === aspectPresetId ? "bg-orange-500 border-orange-500" : "border-white/60 hover:bg-white/20"
+                                    )}
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="max-h-[55vh] overflow-hidden">
+                            <ReactCrop
+                                crop={crop}
+                                onChange={(_, percentCrop) => setCrop(percentCrop)}
+                                aspect={aspect}
+                                className="max-h-full"
+                            >
+                                <img
+                                    ref={imgRef}
+                                    src={imageUrl}
+                                    onLoad={onImageLoad}
+                                    alt="Image to crop"
+                                    className="max-h-[55vh] object-contain"
+                                />
+                            </ReactCrop>
+                        </div>
+                        <p className="text-sm text-neutral-300 h-5">
+                            {focus ? FOCUS_DESCRIPTIONS[focus.source] : 'Finding the subject...'}
+                        </p>
+                        {remainingCount > 0 && (
+                            <label className="flex items-center gap-2 text-sm text-neutral-200 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={applyToRemaining}
+                                    onChange={(e) => setApplyToRemaining(e.target.checked)}
+                                    className="accent-orange-500"
+                                />
+                                Auto-crop the {remainingCount} remaining image{remainingCount > 1 ? 's' : ''} at this ratio
+                            </label>
+                        )}
+                        <div className="flex gap-4 mt-2">
+                            <button
+                                onClick={onSkip}
+                                disabled={isSaving}
+                                className="text-lg font-semibold text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-3 px-8 rounded-full transform transition-transform duration-200 hover:scale-105 hover:bg-white hover:text-black disabled:opacity-50 disabled:pointer-events-none"
+                            >
+                                Skip
+                            </button>
+                            <button
+                                onClick={handleConfirm}
+                                disabled={!crop || isSaving}
+                                className="text-lg font-semibold text-center text-white bg-orange-500 py-3 px-8 rounded-full transform transition-transform duration-200 hover:scale-105 hover:bg-orange-600 shadow-lg disabled:bg-neutral-400 disabled:cursor-not-allowed disabled:scale-100"
+                            >
+                                {applyToRemaining ? 'Crop All' : 'Crop & Save'}
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default CropModal;
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { listRuns, deleteRun } from '../lib/historyStore';
+import { downloadBlob, downloadUrl } from '../lib/download';
+import { extensionForMimeType, parseDataUrl } from '../lib/dataUrl';
+import { useStoredImageSources } from '../lib/storedImageSources';
+import type { GeneratedImage, GenerationRun, StoredImage } from '../types';
+
+interface HistoryPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onOpenRun: (run: GenerationRun<StoredImage>) => void;
+    onRunDeleted: (id: string) => void;
+    /** Runs can't be opened while a generation is in flight. */
+    canOpenRuns: boolean;
+}
+
+const smallButtonClasses = "text-sm font-semibold text-white bg-white/10 border border-white/60 py-1 px-3 rounded-full transition-colors duration-200 hover:bg-white hover:text-black";
+
+function successfulResults(run: GenerationRun<StoredImage>): GeneratedImage<StoredImage>[] {
+    return run.results.filter(result => result.status === 'done' && result.url);
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onOpenRun, onRunDeleted, canOpenRuns }) => {
+    const [runs, setRuns] = useState<GenerationRun<StoredImage>[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const thumbnails = useMemo(() => runs.flatMap(run => successfulResults(run).slice(0, 3).map(result => result.url!)), [runs]);
+    const thumbnailSource = useStoredImageSources(thumbnails);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setIsLoading(true);
+        listRuns()
+            .then(setRuns)
+            .catch(err => console.error("Failed to load generation history:", err))
+            .finally(() => setIsLoading(false));
+    }, [isOpen]);
+
+    const handleDownloadRun = (run: GenerationRun<StoredImage>) => {
+        run.results.forEach((result, index) => {
+            if (result.status === 'done' && result.url) {
+                // Data URLs saved by older versions carry their type in the URL itself
+                const mimeType = typeof result.url === 'string' ? parseDataUrl(result.url)?.mimeType ?? '' : result.url.type;
+                const fileName = `perfect-shot-${new Date(run.createdAt).toISOString().slice(0, 10)}-${index + 1}.${extensionForMimeType(mimeType)}`;
+                if (typeof result.url === 'string') {
+                    downloadUrl(result.url, fileName);
+                } else {
+                    downloadBlob(result.url, fileName);
+                }
+            }
+        });
+    };
+
+    const handleDeleteRun = async (run: GenerationRun<StoredImage>) => {
+        if (!confirm("Delete this run and all of its images? This can't be undone.")) return;
+        try {
+            await deleteRun(run.id);
+            setRuns(prev => prev.filter(r => r.id !== run.id));
+            onRunDeleted(run.id);
+        } catch (err) {
+            console.error("Failed to delete run:", err);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <motion.div
+                        className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 w-full max-w-2xl max-h-[85vh] flex flex-col gap-4 text-white"
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                    >
+                        <h2 className="text-2xl font-bold text-center">History</h2>
+                        <div className="flex-1 overflow-y-auto flex flex-col gap-3 pr-1">
+                            {isLoading && <p className="text-center text-neutral-300">Loading...</p>}
+                            {!isLoading && runs.length === 0 && (
+                                <p className="text-center text-neutral-300">No generations yet. Your runs will appear here.</p>
+                            )}
+                            {runs.map(run => {
+                                const successful = successfulResults(run);
+                                return (
+                                    <div key={run.id} className="flex items-center gap-4 p-3 bg-black/20 rounded-lg">
+                                        <div className="flex -space-x-6 flex-shrink-0">
+                                            {successful.slice(0, 3).map((result, index) => (
+                                                <img key={index} src={thumbnailSource(result.url!)} alt="" className="h-16 w-12 object-cover rounded-md border-2 border-white/70 shadow" />
+                                            ))}
+                                            {successful.length === 0 && <div className="h-16 w-12 rounded-md bg-white/10" />}
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-semibold">{new Date(run.createdAt).toLocaleString()}</p>
+                                            <p className="text-sm text-neutral-300 truncate">
+                                                {successful.length}/{run.count} images{run.prompt ? ` · ${run.prompt}` : ''}
+                                            </p>
+                                        </div>
+                                        <div className="flex flex-wrap gap-2 justify-end">
+                                            <button onClick={() => onOpenRun(run)} disabled={!canOpenRuns} className={`${smallButtonClasses} disabled:opacity-40 disabled:pointer-events-none`}>Open</button>
+                                            <button onClick={() => handleDownloadRun(run)} disabled={successful.length === 0} className={`${smallButtonClasses} disabled:opacity-40 disabled:pointer-events-none`}>Download</button>
+                                            <button onClick={() => handleDeleteRun(run)} className={`${smallButtonClasses} hover:bg-red-500 hover:text-white`}>Delete</button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <button onClick={onClose} className="mt-2 text-neutral-300 hover:text-white transition-colors">Close</button>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import type { ImageId, ImageLocation, UploadListId } from '../types';
+
+/** Drag payload type for thumbnails, so they can't be confused with files or text. */
+const THUMBNAIL_DRAG_TYPE = 'application/x-perfect-shot-thumbnail';
+
+interface ImageDropGridProps {
+    list: UploadListId;
+    images: ImageId[];
+    /** Used for each thumbnail's alt text, e.g. "Your Photo" becomes "Your Photo 1". */
+    altPrefix: string;
+    /** Marks the first image, for lists where order matters. */
+    primaryLabel?: string;
+    onRemove: (index: number) => void;
+    onFilesDropped: (files: File[]) => void;
+    /** Called when a thumbnail is dropped within this list or dragged in from the other one. */
+    onMoveImage: (from: ImageLocation, to: ImageLocation) => void;
+}
+
+function isSupportedDrag(e: React.DragEvent): boolean {
+    const types = Array.from(e.dataTransfer.types);
+    return types.includes(THUMBNAIL_DRAG_TYPE) || types.includes('Files');
+}
+
+const ImageDropGrid: React.FC<ImageDropGridProps> = ({ list, images, altPrefix, primaryLabel, onRemove, onFilesDropped, onMoveImage }) => {
+    const [isDragOver, setIsDragOver] = useState<boolean>(false);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const handleDragStart = (e: React.DragEvent, index: number) => {
+        const location: ImageLocation = { list, index };
+        e.dataTransfer.setData(THUMBNAIL_DRAG_TYPE, JSON.stringify(location));
+        e.dataTransfer.effectAllowed = 'move';
+    };
+
+    const handleDragOver = (e: React.DragEvent, index: number | null) => {
+        if (!isSupportedDrag(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = Array.from(e.dataTransfer.types).includes('Files') ? 'copy' : 'move';
+        setIsDragOver(true);
+        setDropIndex(index);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        // Ignore leave events fired when moving between children of the grid
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        setIsDragOver(false);
+        setDropIndex(null);
+    };
+
+    const handleDrop = (e: React.DragEvent, index: number | null) => {
+        if (!isSupportedDrag(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragOver(false);
+        setDropIndex(null);
+
+        const payload = e.dataTransfer.getData(THUMBNAIL_DRAG_TYPE);
+        if (payload) {
+            const from = JSON.parse(payload) as ImageLocation;
+            onMoveImage(from, { list, index: index ?? images.length });
+            return;
+        }
+        const files = Array.from<File>(e.dataTransfer.files);
+        if (files.length > 0) {
+            onFilesDropped(files);
+        }
+    };
+
+    return (
+        <div
+            className={cn(
+                "w-full min-h-[200px] bg-black/20 rounded-lg p-3 grid grid-cols-3 gap-3 border-2 border-dashed transition-colors",
+                isDragOver ? "border-orange-400 bg-orange-400/10" : "border-transparent"
+            )}
+            onDragOver={(e) => handleDragOver(e, null)}
+            onDragLeave={handleDragLeave}
+            onDrop={(e) => handleDrop(e, null)}
+        >
+            <AnimatePresence>
+                {images.map((src, index) => (
+                    <motion.div key={src} className="relative aspect-square" layout
+                        initial={{ opacity: 0, scale: 0.5 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.5 }}
+                    >
+                        <img
+                            src={src}
+                            draggable
+                            onDragStart={(e) => handleDragStart(e, index)}
+                            onDragOver={(e) => { e.stopPropagation(); handleDragOver(e, index); }}
+                            onDrop={(e) => handleDrop(e, index)}
+                            className={cn(
+                                "w-full h-full object-cover rounded-md cursor-grab active:cursor-grabbing",
+                                dropIndex === index && "ring-2 ring-orange-400"
+                            )}
+                            alt={`${altPrefix} ${index + 1}`}
+                        />
+                        {primaryLabel && index === 0 && (
+                            <span className="absolute bottom-1 left-1 bg-orange-500 text-white text-[10px] font-bold uppercase px-1.5 py-0.5 rounded pointer-events-none">
+                                {primaryLabel}
+                            </span>
+                        )}
+                        <button onClick={() => onRemove(index)} className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full h-5 w-5 flex items-center justify-center text-xs font-bold">&times;</button>
+                    </motion.div>
+                ))}
+            </AnimatePresence>
+            {images.length === 0 && (
+                <p className="col-span-3 self-center text-center text-neutral-400 pointer-events-none">Drop photos here</p>
+            )}
+        </div>
+    );
+};
+
+export default ImageDropGrid;
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { canvasToBlob } from '../lib/canvas';
+
+interface MaskEditorProps {
+    /** The result being edited, or null when the editor is closed. */
+    imageUrl: string | null;
+    onClose: () => void;
+    /**
+     * Called with a PNG mask the size of the image, opaque where the user painted,
+     * and the instruction for that region.
+     */
+    onSubmit: (mask: Blob, instruction: string) => void;
+}
+
+type BrushMode = 'paint' | 'erase';
+
+const MASK_COLOR = '#f97316';
+const chipClasses = "text-sm font-semibold py-1 px-4 rounded-full border-2 transition-colors";
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onClose, onSubmit }) => {
+    const [instruction, setInstruction] = useState<string>('');
+    const [brushMode, setBrushMode] = useState<BrushMode>('paint');
+    // Brush diameter as a percentage of the image width, so it feels the same at any resolution
+    const [brushSize, setBrushSize] = useState<number>(6);
+    const [hasMask, setHasMask] = useState<boolean>(false);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        setInstruction('');
+        setHasMask(false);
+    }, [imageUrl]);
+
+    // The canvas works at the image's own resolution; CSS scales it over the displayed image
+    const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        setHasMask(false);
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+            y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+        };
+    };
+
+    const drawTo = (canvas: HTMLCanvasElement, point: { x: number; y: number }) => {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const from = lastPointRef.current ?? point;
+        ctx.globalCompositeOperation = brushMode === 'paint' ? 'source-over' : 'destination-out';
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.lineWidth = (brushSize / 100) * canvas.width;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPointRef.current = point;
+        if (brushMode === 'paint') setHasMask(true);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPointRef.current = null;
+        drawTo(e.currentTarget, toCanvasPoint(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        drawTo(e.currentTarget, toCanvasPoint(e));
+    };
+
+    const handlePointerUp = () => {
+        lastPointRef.current = null;
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const canvas = canvasRef.current;
+        const trimmed = instruction.trim();
+        if (!canvas || !hasMask || !trimmed) return;
+        try {
+            onSubmit(await canvasToBlob(canvas, 'image/png'), trimmed);
+        } catch (error) {
+            console.error("Failed to encode mask:", error);
+            alert("Sorry, the painted area couldn't be saved. Please try again.");
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {imageUrl && (
+                <motion.div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <motion.form
+                        onSubmit={handleSubmit}
+                        className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 w-full max-w-3xl max-h-[95vh] flex flex-col items-center gap-4 text-white"
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                    >
+                        <h2 className="text-2xl font-bold">Edit an Area</h2>
+                        <p className="text-neutral-300 text-center text-sm">Paint over the part to change. Everything else stays exactly as it is.</p>
+                        <div className="relative min-h-0 flex-1 flex items-center justify-center">
+                            <div className="relative">
+                                <img src={imageUrl} alt="Result to edit" onLoad={onImageLoad} className="block max-h-[55vh] max-w-full select-none" draggable={false} />
+                                <canvas
+                                    ref={canvasRef}
+                                    onPointerDown={handlePointerDown}
+                                    onPointerMove={handlePointerMove}
+                                    onPointerUp={handlePointerUp}
+                                    onPointerCancel={handlePointerUp}
+                                    className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                                    aria-label="Mask painting area"
+                                />
+                            </div>
+                        </div>
+                        <div className="w-full flex flex-wrap items-center justify-center gap-3">
+                            <div className="flex gap-2" role="radiogroup" aria-label="Brush mode">
+                                {(['paint', 'erase'] as BrushMode[]).map(mode => (
+                                    <button
+                                        key={mode}
+                                        type="button"
+                                        role="radio"
+                                        aria-checked={brushMode === mode}
+                                        onClick={() => setBrushMode(mode)}
+                                        className={cn(chipClasses, brushMode === mode ? "bg-orange-500 border-orange-500" : "border-white/60 hover:bg-white/20")}
+                                    >
+                                        {mode === 'paint' ? 'Brush' : 'Eraser'}
+                                    </button>
+                                ))}
+                            </div>
+                            <label className="flex items-center gap-2 text-sm font-semibold">
+                                Size
+                                <input
+                                    type="range"
+                                    min="1"
+                                    max="20"
+                                    value={brushSize}
+                                    onChange={(e) => setBrushSize(Number(e.target.value))}
+                                    className="w-32 h-2 bg-black/30 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                                />
+                            </label>
+                            <button type="button" onClick={handleClear} disabled={!hasMask} className="text-sm text-neutral-300 hover:text-white underline disabled:opacity-40 disabled:no-underline">
+                                Clear
+                            </button>
+                        </div>
+                        <input
+                            type="text"
+                            value={instruction}
+                            onChange={(e) => setInstruction(e.target.value)}
+                            placeholder="e.g., fix the hand, remove the sign"
+                            className="w-full bg-black/20 rounded-lg p-3 text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400 transition-all"
+                            aria-label="What to change in the painted area"
+                        />
+                        <div className="flex gap-4 justify-center">
+                            <button
+                                type="submit"
+                                disabled={!hasMask || !instruction.trim()}
+                                className="font-semibold text-white bg-orange-500 py-2 px-6 rounded-full transition-transform duration-200 hover:scale-105 hover:bg-orange-600 disabled:bg-neutral-400 disabled:cursor-not-allowed disabled:scale-100"
+                            >
+                                Edit Area
+                            </button>
+                            <button type="button" onClick={onClose} className="text-neutral-300 hover:text-white transition-colors">Cancel</button>
+                        </div>
+                    </motion.form>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default MaskEditor;
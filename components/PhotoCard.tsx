@@ -4,36 +4,149 @@
 */
 import React, { useState, useEffect } from 'react';
 import { cn } from '../lib/utils';
-
-type ImageStatus = 'pending' | 'done' | 'error';
+import { formatStyleControls } from '../lib/styleControls';
+import { describeProgress, formatElapsed } from '../lib/generationProgress';
+import type { GenerationErrorInfo, GenerationErrorKind, GenerationProgress, ImageStatus, ImageVersion, MatchScore, StyleControls } from '../types';
 
 interface PhotoCardProps {
     imageUrl?: string;
     caption: string;
+    /** The creative direction that produced this slot, if any. */
+    variationLabel?: string;
+    /** The sliders this slot was generated with, shown so slots can be compared. */
+    styleControls?: StyleControls;
     status: ImageStatus;
-    error?: string;
+    /** The latest lifecycle event of the pending request. */
+    progress?: GenerationProgress;
+    /** When the pending request started, as a timestamp; shown as elapsed time. */
+    startedAt?: number;
+    error?: GenerationErrorInfo;
     onRegenerate?: () => void;
     onDownload?: () => void;
+    /** Sends the current result back to the model with a follow-up instruction. */
+    onRefine?: (instruction: string) => void;
+    /** Opens the mask editor to change only part of the result. */
+    onEditArea?: () => void;
+    versions?: ImageVersion[];
+    versionIndex?: number;
+    onSelectVersion?: (versionIndex: number) => void;
+    /** Takes the user back to the upload screen to change the prompt or photos. */
+    onEditInputs?: () => void;
+    /** Width divided by height of the result frame. Images are shown whole, never cropped to fit. */
+    aspectRatio?: number;
+    isFavorite?: boolean;
+    onToggleFavorite?: () => void;
+    /** Whether the result is picked for compare mode. */
+    isSelected?: boolean;
+    onToggleSelected?: () => void;
+    /** How well the displayed version matches the inputs, shown as a badge. */
+    matchScore?: MatchScore;
 }
 
-const LoadingSpinner = () => (
-    <div className="flex items-center justify-center h-full">
-        <svg className="animate-spin h-8 w-8 text-neutral-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-        </svg>
-    </div>
-);
+type SuggestedAction = 'retry' | 'retry-later' | 'edit-prompt' | 'check-photos';
 
-const ErrorDisplay = ({ error }: { error?: string }) => (
-    <div className="flex flex-col items-center justify-center h-full text-center p-4">
-         <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-500 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-        <p className="text-sm text-neutral-600">Generation failed. Please try regenerating.</p>
-    </div>
+const ERROR_GUIDANCE: Record<GenerationErrorKind, { title: string; description: string; action: SuggestedAction; actionLabel: string }> = {
+    'safety-blocked': {
+        title: "Blocked by safety filters",
+        description: "The prompt or the result was flagged. Try rewording your instructions or using different vibe photos.",
+        action: 'edit-prompt',
+        actionLabel: "Edit prompt",
+    },
+    'text-response': {
+        title: "No image returned",
+        description: "The model replied with text instead of an image. This vibe might be too complex; try again or simplify it.",
+        action: 'retry',
+        actionLabel: "Try again",
+    },
+    'rate-limited': {
+        title: "Rate limit reached",
+        description: "Too many requests or the quota is used up. Wait a minute before retrying, or lower parallel requests in Settings.",
+        action: 'retry-later',
+        actionLabel: "Retry later",
+    },
+    'invalid-input': {
+        title: "Input rejected",
+        description: "One of the photos or the prompt couldn't be processed. Check your photos and try again.",
+        action: 'check-photos',
+        actionLabel: "Check photos",
+    },
+    'network': {
+        title: "Connection problem",
+        description: "The generation service couldn't be reached. Check your connection and retry.",
+        action: 'retry',
+        actionLabel: "Retry",
+    },
+    'cancelled': {
+        title: "Cancelled",
+        description: "This image was not generated.",
+        action: 'retry',
+        actionLabel: "Generate",
+    },
+    'unknown': {
+        title: "Generation failed",
+        description: "Something went wrong. Please try regenerating.",
+        action: 'retry',
+        actionLabel: "Retry",
+    },
+};
+
+const overlayButtonClasses = "p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white transition-all duration-200 opacity-0 group-hover:opacity-100";
+
+const Spinner = () => (
+    <svg className="animate-spin h-8 w-8 text-neutral-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
 );
 
+const PendingStatus = ({ progress, startedAt }: { progress?: GenerationProgress; startedAt?: number }) => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (startedAt === undefined) return;
+        const intervalId = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(intervalId);
+    }, [startedAt]);
+
+    return (
+        <div className="flex flex-col items-center justify-center h-full gap-3 text-center px-4">
+            <Spinner />
+            {progress && (
+                <p className="text-sm font-semibold text-neutral-700" aria-live="polite">{describeProgress(progress)}</p>
+            )}
+            {startedAt !== undefined && (
+                <p className="text-xs text-neutral-500 tabular-nums">{formatElapsed(now - startedAt)}</p>
+            )}
+        </div>
+    );
+};
+
+const ErrorDisplay = ({ error, onRetry, onEditInputs }: { error?: GenerationErrorInfo; onRetry?: () => void; onEditInputs?: () => void }) => {
+    const guidance = ERROR_GUIDANCE[error?.kind ?? 'unknown'] ?? ERROR_GUIDANCE.unknown;
+    const handleAction = guidance.action === 'edit-prompt' || guidance.action === 'check-photos' ? onEditInputs : onRetry;
+
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-center p-4 gap-2">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="font-semibold text-neutral-800">{guidance.title}</p>
+            <p className="text-sm text-neutral-600">{guidance.description}</p>
+            {error?.message && (
+                <p className="text-xs text-neutral-500 line-clamp-2" title={error.message}>{error.message}</p>
+            )}
+            {handleAction && (
+                <button
+                    onClick={handleAction}
+                    className="mt-1 text-sm font-semibold text-white bg-orange-500 hover:bg-orange-600 rounded-full px-4 py-1 transition-colors"
+                >
+                    {guidance.actionLabel}
+                </button>
+            )}
+        </div>
+    );
+};
+
 const Placeholder = () => (
     <div className="flex flex-col items-center justify-center h-full text-neutral-400 group-hover:text-neutral-500 transition-colors duration-300">
         <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
@@ -45,25 +158,86 @@ const Placeholder = () => (
 );
 
 
-const PhotoCard: React.FC<PhotoCardProps> = ({ imageUrl, caption, status, error, onRegenerate, onDownload }) => {
+const PhotoCard: React.FC<PhotoCardProps> = ({
+    imageUrl,
+    caption,
+    variationLabel,
+    styleControls,
+    status,
+    progress,
+    startedAt,
+    error,
+    onRegenerate,
+    onDownload,
+    onRefine,
+    onEditArea,
+    versions = [],
+    versionIndex = 0,
+    onSelectVersion,
+    onEditInputs,
+    aspectRatio = 3 / 4,
+    isFavorite = false,
+    onToggleFavorite,
+    isSelected = false,
+    onToggleSelected,
+    matchScore,
+}) => {
     const [isImageLoaded, setIsImageLoaded] = useState(false);
+    const [isRefineOpen, setIsRefineOpen] = useState(false);
+    const [refineInstruction, setRefineInstruction] = useState('');
 
     useEffect(() => {
         setIsImageLoaded(false);
     }, [imageUrl]);
 
+    const handleRefineSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!onRefine || !refineInstruction.trim()) return;
+        onRefine(refineInstruction.trim());
+        setRefineInstruction('');
+        setIsRefineOpen(false);
+    };
+
+    const currentVersion = versions[versionIndex];
+
     return (
-        <div className="bg-white/90 backdrop-blur-lg p-3 flex flex-col items-center w-80 max-w-full rounded-xl shadow-lg relative aspect-[3/4]">
-             <div className="w-full bg-neutral-200 rounded-md flex-grow relative overflow-hidden group">
-                {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay error={error} />}
+        <div className="bg-white/90 backdrop-blur-lg p-3 flex flex-col items-center w-80 max-w-full rounded-xl shadow-lg relative">
+             <div className="w-full bg-neutral-200 rounded-md relative overflow-hidden group" style={{ aspectRatio }}>
+                {status === 'pending' && <PendingStatus progress={progress} startedAt={startedAt} />}
+                {status === 'error' && <ErrorDisplay error={error} onRetry={onRegenerate} onEditInputs={onEditInputs} />}
                 {status === 'done' && imageUrl && (
                     <>
+                        <div className="absolute top-2 left-2 z-20 flex flex-col gap-2">
+                            {onToggleFavorite && (
+                                <button
+                                    onClick={() => onToggleFavorite()}
+                                    className={cn(overlayButtonClasses, "text-xl leading-none w-9 h-9", isFavorite && "opacity-100 text-yellow-400")}
+                                    aria-label={isFavorite ? `Remove ${caption} from favorites` : `Add ${caption} to favorites`}
+                                    aria-pressed={isFavorite}
+                                >
+                                    {isFavorite ? '★' : '☆'}
+                                </button>
+                            )}
+                            {onToggleSelected && (
+                                <label
+                                    className={cn(overlayButtonClasses, "flex items-center gap-1 px-3 text-xs font-semibold cursor-pointer", isSelected && "opacity-100 bg-orange-500 hover:bg-orange-600")}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={isSelected}
+                                        onChange={() => onToggleSelected()}
+                                        className="accent-orange-500"
+                                        aria-label={`Select ${caption} for comparison`}
+                                    />
+                                    Compare
+                                </label>
+                            )}
+                        </div>
                         <div className="absolute top-2 right-2 z-20 flex flex-col gap-2">
                             {onDownload && (
                                 <button
                                     onClick={() => onDownload()}
-                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white transition-all duration-200 opacity-0 group-hover:opacity-100"
+                                    className={overlayButtonClasses}
                                     aria-label={`Download image for ${caption}`}
                                 >
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -74,7 +248,7 @@ const PhotoCard: React.FC<PhotoCardProps> = ({ imageUrl, caption, status, error,
                              {onRegenerate && (
                                 <button
                                     onClick={() => onRegenerate()}
-                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white transition-all duration-200 opacity-0 group-hover:opacity-100"
+                                    className={overlayButtonClasses}
                                     aria-label={`Regenerate image for ${caption}`}
                                 >
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -82,7 +256,60 @@ const PhotoCard: React.FC<PhotoCardProps> = ({ imageUrl, caption, status, error,
                                     </svg>
                                 </button>
                             )}
+                            {onRefine && (
+                                <button
+                                    onClick={() => setIsRefineOpen(open => !open)}
+                                    className={cn(overlayButtonClasses, isRefineOpen && "opacity-100")}
+                                    aria-label={`Refine image for ${caption}`}
+                                    aria-expanded={isRefineOpen}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                                    </svg>
+                                </button>
+                            )}
+                            {onEditArea && (
+                                <button
+                                    onClick={() => onEditArea()}
+                                    className={overlayButtonClasses}
+                                    aria-label={`Edit an area of ${caption}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+                                    </svg>
+                                </button>
+                            )}
                         </div>
+
+                        {matchScore && !isRefineOpen && (
+                            <span
+                                className={cn(
+                                    "absolute bottom-2 left-2 z-20 text-xs font-bold text-white py-1 px-2 rounded-full shadow",
+                                    matchScore.overall >= 70 ? "bg-green-600/90" : matchScore.overall >= 40 ? "bg-yellow-600/90" : "bg-red-600/90"
+                                )}
+                                title={`Likeness ${matchScore.identity} · Vibe ${matchScore.style}`}
+                            >
+                                {matchScore.overall}% match
+                            </span>
+                        )}
+
+                        {isRefineOpen && onRefine && (
+                            <form onSubmit={handleRefineSubmit} className="absolute bottom-2 left-2 right-2 z-20 flex flex-col gap-2 p-2 bg-black/70 backdrop-blur-sm rounded-lg">
+                                <input
+                                    type="text"
+                                    autoFocus
+                                    value={refineInstruction}
+                                    onChange={(e) => setRefineInstruction(e.target.value)}
+                                    placeholder="e.g., make the background warmer"
+                                    className="w-full bg-white/10 rounded-md px-2 py-1 text-sm text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400"
+                                    aria-label={`Refinement instruction for ${caption}`}
+                                />
+                                <div className="flex justify-end gap-2">
+                                    <button type="button" onClick={() => setIsRefineOpen(false)} className="text-xs text-neutral-300 hover:text-white px-2">Cancel</button>
+                                    <button type="submit" disabled={!refineInstruction.trim()} className="text-xs font-semibold text-white bg-orange-500 hover:bg-orange-600 rounded-full px-3 py-1 disabled:bg-neutral-500">Refine</button>
+                                </div>
+                            </form>
+                        )}
                         
                         <img
                             key={imageUrl}
@@ -90,7 +317,7 @@ const PhotoCard: React.FC<PhotoCardProps> = ({ imageUrl, caption, status, error,
                             alt={caption}
                             onLoad={() => setIsImageLoaded(true)}
                             className={cn(
-                                "w-full h-full object-cover transition-opacity duration-500",
+                                "w-full h-full object-contain transition-opacity duration-500",
                                 isImageLoaded ? "opacity-100" : "opacity-0"
                             )}
                         />
@@ -102,6 +329,42 @@ const PhotoCard: React.FC<PhotoCardProps> = ({ imageUrl, caption, status, error,
                 <p className="font-semibold text-lg truncate text-neutral-800">
                     {caption}
                 </p>
+                {variationLabel && (
+                    <p className="text-sm text-neutral-500 truncate" title={variationLabel}>
+                        {variationLabel}
+                    </p>
+                )}
+                {styleControls && (
+                    <p className="text-xs text-neutral-500">{formatStyleControls(styleControls)}</p>
+                )}
+                {versions.length > 1 && onSelectVersion && (
+                    <div className="flex items-center justify-center gap-2 text-sm text-neutral-600 mt-1">
+                        <button
+                            onClick={() => onSelectVersion(versionIndex - 1)}
+                            disabled={versionIndex === 0 || status === 'pending'}
+                            className="px-2 rounded hover:bg-neutral-200 disabled:opacity-30"
+                            aria-label="Previous version"
+                        >
+                            &lsaquo;
+                        </button>
+                        <span title={currentVersion?.instruction ? `${currentVersion.masked ? 'Area edit: ' : ''}${currentVersion.instruction}` : 'Original'}>
+                            v{versionIndex + 1}/{versions.length}
+                        </span>
+                        <button
+                            onClick={() => onSelectVersion(versionIndex + 1)}
+                            disabled={versionIndex === versions.length - 1 || status === 'pending'}
+                            className="px-2 rounded hover:bg-neutral-200 disabled:opacity-30"
+                            aria-label="Next version"
+                        >
+                            &rsaquo;
+                        </button>
+                    </div>
+                )}
+                {status === 'done' && error && (
+                    <p className="text-xs text-red-600 truncate mt-1" title={error.message}>
+                        {ERROR_GUIDANCE[error.kind]?.title ?? ERROR_GUIDANCE.unknown.title}: {error.message}
+                    </p>
+                )}
             </div>
         </div>
     );
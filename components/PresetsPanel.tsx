@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo, ChangeEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { listPresets, savePreset, deletePreset, exportPresets, parsePresetFile } from '../lib/presetStore';
+import { downloadBlob } from '../lib/download';
+import { toStoredImage } from '../lib/imageStore';
+import { useStoredImageSources } from '../lib/storedImageSources';
+import type { ImageId, StoredImage, VibePreset } from '../types';
+
+interface PresetsPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** The vibe photos and instructions on the upload screen, which "Save" stores. */
+    currentInspirationImages: ImageId[];
+    currentPrompt: string;
+    onApplyPreset: (preset: VibePreset<StoredImage>) => void;
+}
+
+const smallButtonClasses = "text-sm font-semibold text-white bg-white/10 border border-white/60 py-1 px-3 rounded-full transition-colors duration-200 hover:bg-white hover:text-black";
+
+function presetFileName(name: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `perfect-shot-preset-${slug || 'untitled'}.json`;
+}
+
+const PresetsPanel: React.FC<PresetsPanelProps> = ({ isOpen, onClose, currentInspirationImages, currentPrompt, onApplyPreset }) => {
+    const [presets, setPresets] = useState<VibePreset<StoredImage>[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [presetName, setPresetName] = useState<string>('');
+    const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+    const thumbnails = useMemo(() => presets.flatMap(preset => preset.inspirationImages.slice(0, 3)), [presets]);
+    const thumbnailSource = useStoredImageSources(thumbnails);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setMessage(null);
+        setIsLoading(true);
+        listPresets()
+            .then(setPresets)
+            .catch(err => console.error("Failed to load presets:", err))
+            .finally(() => setIsLoading(false));
+    }, [isOpen]);
+
+    const handleSave = async () => {
+        const name = presetName.trim();
+        if (!name || currentInspirationImages.length === 0) return;
+
+        // Saving under an existing name updates that preset
+        const existing = presets.find(preset => preset.name.toLowerCase() === name.toLowerCase());
+        const now = Date.now();
+        const preset: VibePreset<StoredImage> = {
+            id: existing?.id ?? crypto.randomUUID(),
+            name,
+            inspirationImages: currentInspirationImages.map(toStoredImage),
+            prompt: currentPrompt,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+        try {
+            await savePreset(preset);
+            setPresets(await listPresets());
+            setPresetName('');
+            setMessage({ tone: 'success', text: existing ? `Updated "${name}".` : `Saved "${name}".` });
+        } catch (err) {
+            console.error("Failed to save preset:", err);
+            setMessage({ tone: 'error', text: "The preset couldn't be saved." });
+        }
+    };
+
+    const handleDelete = async (preset: VibePreset<StoredImage>) => {
+        if (!confirm(`Delete the preset "${preset.name}"?`)) return;
+        try {
+            await deletePreset(preset.id);
+            setPresets(prev => prev.filter(p => p.id !== preset.id));
+        } catch (err) {
+            console.error("Failed to delete preset:", err);
+        }
+    };
+
+    const handleExport = async (toExport: VibePreset<StoredImage>[], fileName: string) => {
+        try {
+            downloadBlob(await exportPresets(toExport), fileName);
+        } catch (err) {
+            console.error("Failed to export presets:", err);
+            setMessage({ tone: 'error', text: "The presets couldn't be exported." });
+        }
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const imported = parsePresetFile(await file.text());
+            for (const preset of imported) {
+                await savePreset(preset);
+            }
+            setPresets(await listPresets());
+            setMessage({ tone: 'success', text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.` });
+        } catch (err) {
+            console.error("Failed to import presets:", err);
+            setMessage({ tone: 'error', text: err instanceof Error ? err.message : "The file couldn't be imported." });
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <motion.div
+                        className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 w-full max-w-2xl max-h-[85vh] flex flex-col gap-4 text-white"
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                    >
+                        <h2 className="text-2xl font-bold text-center">Vibe Presets</h2>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                            <input
+                                type="text"
+                                value={presetName}
+                                onChange={(e) => setPresetName(e.target.value)}
+                                placeholder='Name this vibe, e.g. "Film noir"'
+                                className="flex-1 bg-black/20 rounded-lg p-3 text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400 transition-all"
+                                aria-label="Preset name"
+                            />
+                            <button
+                                onClick={handleSave}
+                                disabled={!presetName.trim() || currentInspirationImages.length === 0}
+                                className="font-semibold text-white bg-orange-500 py-2 px-6 rounded-full transition-transform duration-200 hover:scale-105 hover:bg-orange-600 disabled:bg-neutral-400 disabled:cursor-not-allowed disabled:scale-100"
+                            >
+                                Save Current Vibe
+                            </button>
+                        </div>
+                        {currentInspirationImages.length === 0 && (
+                            <p className="text-sm text-neutral-300">Add vibe photos to save them as a preset.</p>
+                        )}
+                        {message && (
+                            <p className={message.tone === 'success' ? "text-sm text-green-300" : "text-sm text-red-300"}>{message.text}</p>
+                        )}
+                        <div className="flex-1 overflow-y-auto flex flex-col gap-3 pr-1">
+                            {isLoading && <p className="text-center text-neutral-300">Loading...</p>}
+                            {!isLoading && presets.length === 0 && (
+                                <p className="text-center text-neutral-300">No presets yet. Save your current vibe or import a preset file.</p>
+                            )}
+                            {presets.map(preset => (
+                                <div key={preset.id} className="flex items-center gap-4 p-3 bg-black/20 rounded-lg">
+                                    <div className="flex -space-x-6 flex-shrink-0">
+                                        {preset.inspirationImages.slice(0, 3).map((image, index) => (
+                                            <img key={index} src={thumbnailSource(image)} alt="" className="h-12 w-12 object-cover rounded-md border-2 border-white/70 shadow" />
+                                        ))}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-semibold truncate">{preset.name}</p>
+                                        <p className="text-sm text-neutral-300 truncate">
+                                            {preset.inspirationImages.length} photo{preset.inspirationImages.length === 1 ? '' : 's'}{preset.prompt ? ` · ${preset.prompt}` : ''}
+                                        </p>
+                                    </div>
+                                    <div className="flex flex-wrap gap-2 justify-end">
+                                        <button onClick={() => onApplyPreset(preset)} className={smallButtonClasses}>Apply</button>
+                                        <button onClick={() => handleExport([preset], presetFileName(preset.name))} className={smallButtonClasses}>Export</button>
+                                        <button onClick={() => handleDelete(preset)} className={`${smallButtonClasses} hover:bg-red-500 hover:text-white`}>Delete</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex flex-wrap gap-2 justify-center">
+                            <label htmlFor="preset-import" className={`${smallButtonClasses} cursor-pointer`}>Import File</label>
+                            <input id="preset-import" type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                            <button
+                                onClick={() => handleExport(presets, 'perfect-shot-presets.json')}
+                                disabled={presets.length === 0}
+                                className={`${smallButtonClasses} disabled:opacity-40 disabled:pointer-events-none`}
+                            >
+                                Export All
+                            </button>
+                        </div>
+                        <button onClick={onClose} className="mt-2 text-neutral-300 hover:text-white transition-colors">Close</button>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default PresetsPanel;
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BUILT_IN_TEMPLATES, PROMPT_PLACEHOLDERS, findUnknownPlaceholders } from '../lib/promptTemplates';
+import { cn } from '../lib/utils';
+import type { PromptTemplate } from '../types';
+
+interface PromptTemplateEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    customTemplates: PromptTemplate[];
+    selectedTemplateId: string;
+    onCustomTemplatesChange: (templates: PromptTemplate[]) => void;
+    onSelectTemplate: (id: string) => void;
+    /** Renders a template with the current photos, instructions and settings, for the preview. */
+    renderPreview: (template: PromptTemplate) => string;
+}
+
+const smallButtonClasses = "text-sm font-semibold text-white bg-white/10 border border-white/60 py-1 px-3 rounded-full transition-colors duration-200 hover:bg-white hover:text-black";
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({
+    isOpen,
+    onClose,
+    customTemplates,
+    selectedTemplateId,
+    onCustomTemplatesChange,
+    onSelectTemplate,
+    renderPreview,
+}) => {
+    const [viewedId, setViewedId] = useState<string>(selectedTemplateId);
+    const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+    useEffect(() => {
+        if (isOpen) setViewedId(selectedTemplateId);
+    }, [isOpen, selectedTemplateId]);
+
+    const allTemplates = [...BUILT_IN_TEMPLATES, ...customTemplates];
+    const template = allTemplates.find(candidate => candidate.id === viewedId) ?? BUILT_IN_TEMPLATES[0];
+    const unknownPlaceholders = findUnknownPlaceholders(template.body);
+
+    const updateTemplate = (changes: Partial<Pick<PromptTemplate, 'name' | 'body'>>) => {
+        onCustomTemplatesChange(customTemplates.map(candidate => candidate.id === template.id ? { ...candidate, ...changes } : candidate));
+    };
+
+    const handleDuplicate = () => {
+        const copy: PromptTemplate = { id: crypto.randomUUID(), name: `${template.name} (copy)`, body: template.body };
+        onCustomTemplatesChange([...customTemplates, copy]);
+        setViewedId(copy.id);
+    };
+
+    const handleDelete = () => {
+        if (!confirm(`Delete the template "${template.name}"?`)) return;
+        onCustomTemplatesChange(customTemplates.filter(candidate => candidate.id !== template.id));
+        if (selectedTemplateId === template.id) {
+            onSelectTemplate(BUILT_IN_TEMPLATES[0].id);
+        }
+        setViewedId(BUILT_IN_TEMPLATES[0].id);
+    };
+
+    // Inserts at the cursor so placeholders can be dropped mid-sentence
+    const insertPlaceholder = (name: string) => {
+        const textarea = bodyRef.current;
+        const token = `{{${name}}}`;
+        const start = textarea?.selectionStart ?? template.body.length;
+        const end = textarea?.selectionEnd ?? template.body.length;
+        updateTemplate({ body: template.body.slice(0, start) + token + template.body.slice(end) });
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + token.length, start + token.length);
+        });
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <motion.div
+                        className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col gap-4 text-white"
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                    >
+                        <h2 className="text-2xl font-bold text-center">Prompt Templates</h2>
+                        <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-4">
+                            <div className="md:w-56 flex-shrink-0 flex flex-col gap-1 overflow-y-auto" role="listbox" aria-label="Templates">
+                                {allTemplates.map(candidate => (
+                                    <button
+                                        key={candidate.id}
+                                        role="option"
+                                        aria-selected={candidate.id === template.id}
+                                        onClick={() => setViewedId(candidate.id)}
+                                        className={cn(
+                                            "text-left py-2 px-3 rounded-lg transition-colors",
+                                            candidate.id === template.id ? "bg-orange-500" : "hover:bg-white/20"
+                                        )}
+                                    >
+                                        <span className="block truncate font-semibold">{candidate.name || 'Untitled'}</span>
+                                        <span className="block text-xs text-neutral-200">
+                                            {candidate.builtIn ? 'Built-in' : 'Custom'}{candidate.id === selectedTemplateId ? ' · In use' : ''}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex-1 min-w-0 flex flex-col gap-3 overflow-y-auto pr-1">
+                                <input
+                                    type="text"
+                                    value={template.name}
+                                    onChange={(e) => updateTemplate({ name: e.target.value })}
+                                    readOnly={template.builtIn}
+                                    className="bg-black/20 rounded-lg p-3 text-white font-semibold focus:outline-none focus:ring-2 focus:ring-orange-400 read-only:opacity-70"
+                                    aria-label="Template name"
+                                />
+                                <textarea
+                                    ref={bodyRef}
+                                    value={template.body}
+                                    onChange={(e) => updateTemplate({ body: e.target.value })}
+                                    readOnly={template.builtIn}
+                                    className="h-56 bg-black/20 rounded-lg p-3 text-sm font-mono text-white focus:outline-none focus:ring-2 focus:ring-orange-400 read-only:opacity-70"
+                                    aria-label="Template text"
+                                />
+                                {template.builtIn ? (
+                                    <p className="text-sm text-neutral-300">Built-in templates can't be edited. Duplicate one to make your own version.</p>
+                                ) : (
+                                    <div className="flex flex-wrap gap-2" aria-label="Insert a placeholder">
+                                        {PROMPT_PLACEHOLDERS.map(placeholder => (
+                                            <button
+                                                key={placeholder.name}
+                                                onClick={() => insertPlaceholder(placeholder.name)}
+                                                title={placeholder.description}
+                                                className="text-xs font-mono py-1 px-2 rounded-md bg-black/30 hover:bg-black/50 transition-colors"
+                                            >
+                                                {`{{${placeholder.name}}}`}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {unknownPlaceholders.length > 0 && (
+                                    <p className="text-sm text-red-300">
+                                        Unknown placeholder{unknownPlaceholders.length === 1 ? '' : 's'}: {unknownPlaceholders.join(', ')}. {unknownPlaceholders.length === 1 ? 'It' : 'They'} will be sent as typed.
+                                    </p>
+                                )}
+                                <h3 className="font-semibold">Preview of the final prompt</h3>
+                                <pre className="bg-black/30 rounded-lg p-3 text-sm text-neutral-200 whitespace-pre-wrap break-words">{renderPreview(template)}</pre>
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2 justify-center">
+                            <button
+                                onClick={() => onSelectTemplate(template.id)}
+                                disabled={template.id === selectedTemplateId}
+                                className={`${smallButtonClasses} disabled:opacity-40 disabled:pointer-events-none`}
+                            >
+                                Use This Template
+                            </button>
+                            <button onClick={handleDuplicate} className={smallButtonClasses}>Duplicate</button>
+                            {!template.builtIn && (
+                                <button onClick={handleDelete} className={`${smallButtonClasses} hover:bg-red-500 hover:text-white`}>Delete</button>
+                            )}
+                        </div>
+                        <button onClick={onClose} className="mt-2 text-neutral-300 hover:text-white transition-colors">Close</button>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default PromptTemplateEditor;
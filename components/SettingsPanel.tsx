@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { getStoredApiKey, setStoredApiKey, clearStoredApiKey } from '../lib/apiKeyStorage';
+import { getStoredConcurrency, setStoredConcurrency, MAX_CONCURRENCY, MAX_AUTO_RETRIES, getStoredAutoRetryThreshold, setStoredAutoRetryThreshold } from '../lib/settingsStorage';
+import { GeminiImageProvider, resetImageProvider, setGenerationConcurrency } from '../services/geminiService';
+
+interface SettingsPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onApiKeyChange: () => void;
+}
+
+type ValidationState =
+    | { status: 'idle' }
+    | { status: 'validating' }
+    | { status: 'valid' }
+    | { status: 'invalid'; message: string };
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onApiKeyChange }) => {
+    const [apiKey, setApiKey] = useState<string>('');
+    const [hasStoredKey, setHasStoredKey] = useState<boolean>(false);
+    const [validation, setValidation] = useState<ValidationState>({ status: 'idle' });
+    const [concurrency, setConcurrency] = useState<number>(() => getStoredConcurrency());
+    const [autoRetryThreshold, setAutoRetryThreshold] = useState<number>(() => getStoredAutoRetryThreshold());
+
+    useEffect(() => {
+        if (isOpen) {
+            const storedKey = getStoredApiKey();
+            setApiKey(storedKey ?? '');
+            setHasStoredKey(!!storedKey);
+            setValidation({ status: 'idle' });
+        }
+    }, [isOpen]);
+
+    const handleSave = async () => {
+        const trimmedKey = apiKey.trim();
+        if (!trimmedKey) return;
+
+        setValidation({ status: 'validating' });
+        try {
+            await GeminiImageProvider.validateApiKey(trimmedKey);
+        } catch (error) {
+            console.error("API key validation failed:", error);
+            setValidation({ status: 'invalid', message: "That key was rejected by the Gemini API. Please check it and try again." });
+            return;
+        }
+
+        setStoredApiKey(trimmedKey);
+        resetImageProvider();
+        setHasStoredKey(true);
+        setValidation({ status: 'valid' });
+        onApiKeyChange();
+    };
+
+    const handleConcurrencyChange = (value: number) => {
+        setConcurrency(value);
+        setStoredConcurrency(value);
+        setGenerationConcurrency(value);
+    };
+
+    const handleAutoRetryThresholdChange = (value: number) => {
+        setAutoRetryThreshold(value);
+        setStoredAutoRetryThreshold(value);
+    };
+
+    const handleClear = () => {
+        clearStoredApiKey();
+        resetImageProvider();
+        setApiKey('');
+        setHasStoredKey(false);
+        setValidation({ status: 'idle' });
+        onApiKeyChange();
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <motion.div
+                        className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 w-full max-w-md flex flex-col gap-4 text-white"
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                    >
+                        <h2 className="text-2xl font-bold text-center">Settings</h2>
+                        <label htmlFor="api-key-input" className="font-semibold">Gemini API Key</label>
+                        <input
+                            id="api-key-input"
+                            type="password"
+                            autoComplete="off"
+                            value={apiKey}
+                            onChange={(e) => {
+                                setApiKey(e.target.value);
+                                setValidation({ status: 'idle' });
+                            }}
+                            placeholder="Paste your API key"
+                            className="w-full bg-black/20 rounded-lg p-3 text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400 transition-all"
+                        />
+                        <p className="text-sm text-neutral-300">
+                            Used when Perfect Shot calls Gemini directly from your browser. Your key is stored only in this browser's local storage. Get one from{' '}
+                            <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="underline hover:text-yellow-400">
+                                Google AI Studio
+                            </a>.
+                        </p>
+                        {validation.status === 'valid' && <p className="text-sm text-green-300">Key verified and saved.</p>}
+                        {validation.status === 'invalid' && <p className="text-sm text-red-300">{validation.message}</p>}
+                        <div className="flex gap-4 justify-center mt-2">
+                            <button
+                                onClick={handleSave}
+                                disabled={!apiKey.trim() || validation.status === 'validating'}
+                                className="font-semibold text-white bg-orange-500 py-2 px-6 rounded-full transition-transform duration-200 hover:scale-105 hover:bg-orange-600 disabled:bg-neutral-400 disabled:cursor-not-allowed disabled:scale-100"
+                            >
+                                {validation.status === 'validating' ? 'Validating...' : 'Validate & Save'}
+                            </button>
+                            {hasStoredKey && (
+                                <button
+                                    onClick={handleClear}
+                                    className="font-semibold text-white bg-white/10 border-2 border-white/60 py-2 px-6 rounded-full transition-transform duration-200 hover:scale-105 hover:bg-white hover:text-black"
+                                >
+                                    Remove Key
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex flex-col gap-2 pt-4 border-t border-white/20">
+                            <label htmlFor="concurrency-input" className="font-semibold">Max parallel requests</label>
+                            <div className="flex items-center gap-4">
+                                <input
+                                    id="concurrency-input"
+                                    type="range"
+                                    min="1"
+                                    max={MAX_CONCURRENCY}
+                                    value={concurrency}
+                                    onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                                    className="w-full h-2 bg-black/30 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                                />
+                                <span className="text-xl font-bold w-8 text-center select-none">{concurrency}</span>
+                            </div>
+                            <p className="text-sm text-neutral-300">
+                                Lower this if you keep hitting rate limits. Extra images wait in a queue.
+                            </p>
+                        </div>
+                        <div className="flex flex-col gap-2 pt-4 border-t border-white/20">
+                            <label htmlFor="auto-retry-input" className="font-semibold">Auto-retry below match score</label>
+                            <div className="flex items-center gap-4">
+                                <input
+                                    id="auto-retry-input"
+                                    type="range"
+                                    min="0"
+                                    max="90"
+                                    step="5"
+                                    value={autoRetryThreshold}
+                                    onChange={(e) => handleAutoRetryThresholdChange(Number(e.target.value))}
+                                    className="w-full h-2 bg-black/30 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                                />
+                                <span className="text-xl font-bold w-12 text-center select-none">{autoRetryThreshold === 0 ? 'Off' : autoRetryThreshold}</span>
+                            </div>
+                            <p className="text-sm text-neutral-300">
+                                Results that score lower are generated again, up to {MAX_AUTO_RETRIES} more times, and the best attempt is kept. Each retry is a new, billed request with a different seed. Off by default.
+                            </p>
+                        </div>
+                        <button onClick={onClose} className="mt-2 text-neutral-300 hover:text-white transition-colors">Close</button>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import { listProfiles, saveProfile, deleteProfile } from '../lib/profileStore';
+import { toStoredImage } from '../lib/imageStore';
+import { useStoredImageSources } from '../lib/storedImageSources';
+import { cn } from '../lib/utils';
+import type { ImageId, StoredImage, SubjectProfile } from '../types';
+
+interface SubjectProfilePickerProps {
+    /** The reference photos and notes currently on the upload screen, which "Save" stores. */
+    currentImages: ImageId[];
+    currentNotes: string;
+    activeProfileId: string | null;
+    onSelectProfile: (profile: SubjectProfile<StoredImage>) => void;
+    /** Called after a profile is saved, with the stored profile. */
+    onProfileSaved: (profile: SubjectProfile<StoredImage>) => void;
+    onProfileDeleted: (id: string) => void;
+}
+
+const chipClasses = "text-sm font-semibold py-1 px-3 rounded-full border-2 transition-colors";
+
+const SubjectProfilePicker: React.FC<SubjectProfilePickerProps> = ({
+    currentImages,
+    currentNotes,
+    activeProfileId,
+    onSelectProfile,
+    onProfileSaved,
+    onProfileDeleted,
+}) => {
+    const [profiles, setProfiles] = useState<SubjectProfile<StoredImage>[]>([]);
+    const [isNaming, setIsNaming] = useState<boolean>(false);
+    const [profileName, setProfileName] = useState<string>('');
+    const avatars = useMemo(() => profiles.flatMap(profile => profile.referenceImages.slice(0, 1)), [profiles]);
+    const avatarSource = useStoredImageSources(avatars);
+
+    useEffect(() => {
+        listProfiles()
+            .then(setProfiles)
+            .catch(err => console.error("Failed to load subject profiles:", err));
+    }, []);
+
+    const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = profileName.trim();
+        if (!name || currentImages.length === 0) return;
+
+        // Saving under an existing name updates that profile
+        const existing = profiles.find(profile => profile.name.toLowerCase() === name.toLowerCase());
+        const now = Date.now();
+        const profile: SubjectProfile<StoredImage> = {
+            id: existing?.id ?? crypto.randomUUID(),
+            name,
+            referenceImages: currentImages.map(toStoredImage),
+            notes: currentNotes.trim(),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+        try {
+            await saveProfile(profile);
+            setProfiles(await listProfiles());
+            setIsNaming(false);
+            setProfileName('');
+            onProfileSaved(profile);
+        } catch (err) {
+            console.error("Failed to save subject profile:", err);
+            alert("Sorry, the profile couldn't be saved.");
+        }
+    };
+
+    const handleDelete = async (profile: SubjectProfile<StoredImage>) => {
+        if (!confirm(`Delete the profile "${profile.name}"? Its photos stay on the upload screen.`)) return;
+        try {
+            await deleteProfile(profile.id);
+            setProfiles(prev => prev.filter(p => p.id !== profile.id));
+            onProfileDeleted(profile.id);
+        } catch (err) {
+            console.error("Failed to delete subject profile:", err);
+        }
+    };
+
+    return (
+        <div className="w-full flex flex-col gap-2">
+            {profiles.length > 0 && (
+                <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Subject profiles">
+                    {profiles.map(profile => (
+                        <span key={profile.id} className="relative group">
+                            <button
+                                role="radio"
+                                aria-checked={profile.id === activeProfileId}
+                                onClick={() => onSelectProfile(profile)}
+                                title={profile.notes || undefined}
+                                className={cn(
+                                    chipClasses,
+                                    "flex items-center gap-2 pr-7",
+                                    profile.id === activeProfileId ? "bg-orange-500 border-orange-500 text-white" : "border-white/60 text-white hover:bg-white/20"
+                                )}
+                            >
+                                <img src={avatarSource(profile.referenceImages[0])} alt="" className="h-5 w-5 rounded-full object-cover" />
+                                {profile.name}
+                            </button>
+                            <button
+                                onClick={() => handleDelete(profile)}
+                                className="absolute right-2 top-1/2 -translate-y-1/2 text-white/70 hover:text-white text-sm"
+                                aria-label={`Delete profile ${profile.name}`}
+                            >
+                                &times;
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            {isNaming ? (
+                <form onSubmit={handleSave} className="flex gap-2">
+                    <input
+                        type="text"
+                        autoFocus
+                        value={profileName}
+                        onChange={(e) => setProfileName(e.target.value)}
+                        placeholder="Who is this?"
+                        className="flex-1 bg-black/20 rounded-lg px-3 py-1 text-white placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-orange-400"
+                        aria-label="Profile name"
+                    />
+                    <button type="submit" disabled={!profileName.trim()} className={cn(chipClasses, "bg-orange-500 border-orange-500 text-white disabled:opacity-40")}>Save</button>
+                    <button type="button" onClick={() => setIsNaming(false)} className="text-sm text-neutral-300 hover:text-white px-2">Cancel</button>
+                </form>
+            ) : (
+                <button
+                    onClick={() => {
+                        setProfileName(activeProfile?.name ?? '');
+                        setIsNaming(true);
+                    }}
+                    disabled={currentImages.length === 0}
+                    className="self-start text-sm text-neutral-300 hover:text-white underline disabled:opacity-40 disabled:no-underline"
+                >
+                    {activeProfile ? `Update "${activeProfile.name}" profile` : 'Save these photos as a profile'}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default SubjectProfilePicker;
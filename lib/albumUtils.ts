@@ -2,136 +2,275 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// Helper function to load an image and return it as an HTMLImageElement
-function loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Setting crossOrigin is good practice for canvas operations, even with data URLs
-        img.crossOrigin = 'anonymous';
-        img.onload = () => resolve(img);
-        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-        img.src = src;
-    });
+import { createSeededRandom } from './random';
+import { canvasToBlob, createCanvas, imageSize, type AnyCanvasContext, type DecodedImage } from './canvas';
+import type { ImageId } from '../types';
+
+export type AlbumLayout = 'grid' | 'collage' | 'polaroid' | 'hero';
+
+export interface AlbumPhoto {
+    url: ImageId;
+    /** Text under the photo; omitted or empty for no caption. */
+    caption?: string;
+}
+
+export interface AlbumOptions {
+    layout: AlbumLayout;
+    title: string;
+    subtitle: string;
+    showCaptions: boolean;
+    /** Drives the tilt and jitter of each photo, so the same album always renders the same way. */
+    seed: number;
+}
+
+export const ALBUM_LAYOUTS: { value: AlbumLayout; label: string; photosPerPage: number }[] = [
+    { value: 'grid', label: 'Grid', photosPerPage: 6 },
+    { value: 'collage', label: 'Collage', photosPerPage: 5 },
+    { value: 'polaroid', label: 'Polaroid scatter', photosPerPage: 6 },
+    { value: 'hero', label: 'Single hero', photosPerPage: 1 },
+];
+
+export const DEFAULT_ALBUM_OPTIONS: AlbumOptions = {
+    layout: 'grid',
+    title: 'Your Perfect Shots',
+    subtitle: 'Generated with Perfect Shot AI on Google AI Studio',
+    showCaptions: true,
+    seed: 0,
+};
+
+// High-resolution canvas for good quality (A4-like ratio)
+const PAGE_WIDTH = 2480;
+const PAGE_HEIGHT = 3508;
+const PAGE_MARGIN = 100;
+const HEADER_HEIGHT = 350;
+const FOOTER_HEIGHT = 120;
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
 }
 
 /**
- * Creates a single "photo album" page image from a collection of styled images.
- * @param imageData A record mapping style strings to their image data URLs.
- * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ * Where one photo goes on a page: the box its frame must fit in, and its tilt in radians.
  */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
-    const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        throw new Error('Could not get 2D canvas context');
+interface PhotoSlot extends Box {
+    rotation: number;
+}
+
+type FrameStyle = 'card' | 'polaroid' | 'plain';
+
+interface FrameInsets {
+    side: number;
+    top: number;
+    /** Space below the photo, which holds the caption. */
+    bottom: number;
+}
+
+interface LayoutTemplate {
+    frame: FrameStyle;
+    /** Places `count` photos inside the content area of one page. */
+    placeSlots: (count: number, area: Box, random: () => number) => PhotoSlot[];
+}
+
+/**
+ * Splits an area into a rows x cols grid of cells separated by `gap`.
+ */
+function gridCells(count: number, cols: number, area: Box, gap: number): Box[] {
+    const rows = Math.ceil(count / cols);
+    const cellWidth = (area.width - gap * (cols - 1)) / cols;
+    const cellHeight = (area.height - gap * (rows - 1)) / rows;
+    return Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / cols);
+        // Center a short last row
+        const itemsInRow = row === rows - 1 ? count - row * cols : cols;
+        const rowOffset = ((cols - itemsInRow) * (cellWidth + gap)) / 2;
+        return {
+            x: area.x + rowOffset + (index % cols) * (cellWidth + gap),
+            y: area.y + row * (cellHeight + gap),
+            width: cellWidth,
+            height: cellHeight,
+        };
+    });
+}
+
+const LAYOUT_TEMPLATES: Record<AlbumLayout, LayoutTemplate> = {
+    grid: {
+        frame: 'card',
+        placeSlots: (count, area, random) =>
+            gridCells(count, count === 1 ? 1 : 2, area, PAGE_MARGIN).map(cell => ({
+                ...cell,
+                rotation: (random() - 0.5) * 0.05, // approx. +/- 1.5 degrees
+            })),
+    },
+    collage: {
+        frame: 'plain',
+        placeSlots: (count, area) => {
+            if (count === 1) return [{ ...area, rotation: 0 }];
+            // One large photo on top, the rest side by side underneath
+            const gap = 40;
+            const heroHeight = area.height * 0.58;
+            const hero: PhotoSlot = { x: area.x, y: area.y, width: area.width, height: heroHeight, rotation: 0 };
+            const rest = { x: area.x, y: area.y + heroHeight + gap, width: area.width, height: area.height - heroHeight - gap };
+            const cols = count - 1 <= 2 ? count - 1 : 2;
+            return [hero, ...gridCells(count - 1, cols, rest, gap).map(cell => ({ ...cell, rotation: 0 }))];
+        },
+    },
+    polaroid: {
+        frame: 'polaroid',
+        placeSlots: (count, area, random) =>
+            gridCells(count, count === 1 ? 1 : 2, area, 20).map(cell => ({
+                // Jitter each print off its cell so the page looks tossed together
+                x: cell.x + (random() - 0.5) * cell.width * 0.12,
+                y: cell.y + (random() - 0.5) * cell.height * 0.12,
+                width: cell.width * 1.05,
+                height: cell.height * 1.05,
+                rotation: (random() - 0.5) * 0.28, // approx. +/- 8 degrees
+            })),
+    },
+    hero: {
+        frame: 'card',
+        placeSlots: (count, area, random) =>
+            gridCells(count, 1, area, PAGE_MARGIN).map(cell => ({ ...cell, rotation: (random() - 0.5) * 0.02 })),
+    },
+};
+
+function frameInsets(frame: FrameStyle, hasCaption: boolean): FrameInsets {
+    switch (frame) {
+        case 'card':
+            return { side: 20, top: 20, bottom: hasCaption ? 120 : 20 };
+        case 'polaroid':
+            return { side: 45, top: 45, bottom: 200 };
+        case 'plain':
+            return { side: 0, top: 0, bottom: hasCaption ? 90 : 0 };
     }
+}
 
-    // 1. Draw the album page background
-    ctx.fillStyle = '#FFFFFF'; // A clean white background
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+function drawHeader(ctx: AnyCanvasContext, options: AlbumOptions) {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
 
-    // 2. Draw the title
     ctx.fillStyle = '#333';
+    ctx.font = `bold 120px 'Poppins', sans-serif`;
+    ctx.fillText(options.title, PAGE_WIDTH / 2, 180, PAGE_WIDTH - PAGE_MARGIN * 2);
+
+    if (options.subtitle) {
+        ctx.font = `50px 'Poppins', sans-serif`;
+        ctx.fillStyle = '#555';
+        ctx.fillText(options.subtitle, PAGE_WIDTH / 2, 260, PAGE_WIDTH - PAGE_MARGIN * 2);
+    }
+}
+
+function drawPageNumber(ctx: AnyCanvasContext, pageNumber: number, pageCount: number) {
+    ctx.fillStyle = '#888';
+    ctx.font = `40px 'Poppins', sans-serif`;
     ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`${pageNumber} / ${pageCount}`, PAGE_WIDTH / 2, PAGE_HEIGHT - FOOTER_HEIGHT / 2);
+}
 
-    ctx.font = `bold 120px 'Poppins', sans-serif`;
-    ctx.fillText('Your Perfect Shots', canvasWidth / 2, 180);
-
-    ctx.font = `50px 'Poppins', sans-serif`;
-    ctx.fillStyle = '#555';
-    ctx.fillText('Generated with Perfect Shot AI on Google AI Studio', canvasWidth / 2, 260);
-
-    // 3. Load all the images concurrently
-    const styles = Object.keys(imageData);
-    const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
-    );
-
-    const imagesWithStyles = styles.map((style, index) => ({
-        style,
-        img: loadedImages[index],
-    }));
-
-    // 4. Define grid layout and draw each photo
-    const grid = { cols: 2, rows: 3, padding: 100 };
-    const contentTopMargin = 350; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
-
-    const photoCardAspectRatio = 1.33; // 4:3 vertical
-    const maxPhotoWidth = cellWidth * 0.9;
-    const maxPhotoHeight = cellHeight * 0.9;
-
-    let photoWidth = maxPhotoWidth;
-    let photoHeight = photoWidth * photoCardAspectRatio;
-
-    if (photoHeight > maxPhotoHeight) {
-        photoHeight = maxPhotoHeight;
-        photoWidth = photoHeight / photoCardAspectRatio;
+/**
+ * Draws one photo in its frame, scaled to fit the slot without cropping.
+ * The frame hugs the photo, so every result keeps its real aspect ratio.
+ */
+function drawPhoto(ctx: AnyCanvasContext, img: DecodedImage, slot: PhotoSlot, frame: FrameStyle, caption: string | undefined) {
+    const insets = frameInsets(frame, !!caption);
+    const maxImageWidth = slot.width - insets.side * 2;
+    const maxImageHeight = slot.height - insets.top - insets.bottom;
+
+    const { width: imageWidth, height: imageHeight } = imageSize(img);
+    const aspectRatio = imageWidth / imageHeight;
+    let drawWidth = maxImageWidth;
+    let drawHeight = drawWidth / aspectRatio;
+    if (drawHeight > maxImageHeight) {
+        drawHeight = maxImageHeight;
+        drawWidth = drawHeight * aspectRatio;
     }
 
-    const imageContainerWidth = photoWidth - 40; // Padding inside the card
-    const imageContainerHeight = photoHeight - 120; // Space for text at bottom
-
-    imagesWithStyles.forEach(({ style, img }, index) => {
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
-
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - photoWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - photoHeight) / 2;
-        
-        ctx.save();
-        
-        ctx.translate(x + photoWidth / 2, y + photoHeight / 2);
-        
-        const rotation = (Math.random() - 0.5) * 0.05; // Radians (approx. +/- 1.5 degrees)
-        ctx.rotate(rotation);
-        
+    const frameWidth = drawWidth + insets.side * 2;
+    const frameHeight = drawHeight + insets.top + insets.bottom;
+
+    ctx.save();
+    ctx.translate(slot.x + slot.width / 2, slot.y + slot.height / 2);
+    ctx.rotate(slot.rotation);
+
+    if (frame !== 'plain') {
         ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
         ctx.shadowBlur = 40;
         ctx.shadowOffsetX = 0;
         ctx.shadowOffsetY = 15;
-        
-        // Draw the white photo card frame
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(-photoWidth / 2, -photoHeight / 2, photoWidth, photoHeight);
-        
+        ctx.fillStyle = frame === 'polaroid' ? '#fdfdf8' : '#fff';
+        ctx.fillRect(-frameWidth / 2, -frameHeight / 2, frameWidth, frameHeight);
         ctx.shadowColor = 'transparent';
+    }
 
-        // Draw the image itself
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
-        }
+    const imageTop = -frameHeight / 2 + insets.top;
+    ctx.drawImage(img, -drawWidth / 2, imageTop, drawWidth, drawHeight);
 
-        const imgX = -drawWidth / 2;
-        const imgY = -photoHeight / 2 + 20 + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // Draw the caption
+    if (caption) {
         ctx.fillStyle = '#333';
-        ctx.font = `60px 'Poppins', sans-serif`;
+        ctx.font = frame === 'polaroid' ? `70px 'Poppins', sans-serif` : `60px 'Poppins', sans-serif`;
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
+        const captionY = imageTop + drawHeight + insets.bottom / 2;
+        ctx.fillText(caption, 0, captionY, frameWidth - 40);
+    }
 
-        const captionY = photoHeight / 2 - 60;
-        ctx.fillText(style, 0, captionY);
-        
-        ctx.restore();
-    });
+    ctx.restore();
+}
 
-    // Convert canvas to a high-quality JPEG and return the data URL
-    return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+/**
+ * One photo ready to draw onto an album page.
+ */
+export interface DecodedAlbumPhoto {
+    image: DecodedImage;
+    caption?: string;
+}
+
+/**
+ * Renders a photo album, splitting the photos across as many pages as the layout needs.
+ * Runs on any canvas, so it can be called inside the image worker; see `createAlbumPages`
+ * in imageProcessing for the usual entry point.
+ * @param photos The decoded photos in album order, with optional captions.
+ * @param options The layout template, header text and rotation seed.
+ * @returns A promise that resolves to one JPEG per page.
+ */
+export async function renderAlbumPages(photos: DecodedAlbumPhoto[], options: AlbumOptions = DEFAULT_ALBUM_OPTIONS): Promise<Blob[]> {
+    const template = LAYOUT_TEMPLATES[options.layout];
+    const photosPerPage = ALBUM_LAYOUTS.find(layout => layout.value === options.layout)?.photosPerPage ?? 6;
+    const random = createSeededRandom(options.seed);
+
+    const pageCount = Math.max(1, Math.ceil(photos.length / photosPerPage));
+    const contentArea: Box = {
+        x: PAGE_MARGIN,
+        y: HEADER_HEIGHT + PAGE_MARGIN,
+        width: PAGE_WIDTH - PAGE_MARGIN * 2,
+        height: PAGE_HEIGHT - HEADER_HEIGHT - FOOTER_HEIGHT - PAGE_MARGIN,
+    };
+
+    const pages: Blob[] = [];
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+        const { canvas, ctx } = createCanvas(PAGE_WIDTH, PAGE_HEIGHT);
+
+        ctx.fillStyle = '#FFFFFF'; // A clean white background
+        ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+        drawHeader(ctx, options);
+
+        const start = pageIndex * photosPerPage;
+        const pagePhotos = photos.slice(start, start + photosPerPage);
+        const slots = template.placeSlots(pagePhotos.length, contentArea, random);
+        pagePhotos.forEach((photo, index) => {
+            const caption = options.showCaptions && photo.caption?.trim() ? photo.caption.trim() : undefined;
+            drawPhoto(ctx, photo.image, slots[index], template.frame, caption);
+        });
+
+        if (pageCount > 1) {
+            drawPageNumber(ctx, pageIndex + 1, pageCount);
+        }
+
+        // Encode as a high-quality JPEG
+        pages.push(await canvasToBlob(canvas, 'image/jpeg', 0.9));
+    }
+    return pages;
+}
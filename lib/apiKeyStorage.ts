@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+const STORAGE_KEY = 'perfect-shot:gemini-api-key';
+
+/**
+ * Reads the user-provided Gemini API key from local storage.
+ * @returns The stored key, or null if none is saved or storage is unavailable.
+ */
+export function getStoredApiKey(): string | null {
+    try {
+        return window.localStorage.getItem(STORAGE_KEY);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Persists a Gemini API key to local storage.
+ * @param apiKey The key to save. Surrounding whitespace is trimmed.
+ */
+export function setStoredApiKey(apiKey: string) {
+    window.localStorage.setItem(STORAGE_KEY, apiKey.trim());
+}
+
+/**
+ * Removes the saved Gemini API key from local storage.
+ */
+export function clearStoredApiKey() {
+    window.localStorage.removeItem(STORAGE_KEY);
+}
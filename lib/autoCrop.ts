@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decodeImage, imageSize, releaseImage, type DecodedImage } from './canvas';
+import { prepareImageRegion } from './imageProcessing';
+import type { SourceRegion } from './imagePreparation';
+
+export type CropAspectPresetId = '1:1' | '3:4' | '4:5' | '16:9' | 'free';
+
+export interface CropAspectPreset {
+    id: CropAspectPresetId;
+    label: string;
+    /** Width divided by height, or undefined for a free-form crop. */
+    aspect?: number;
+}
+
+export const CROP_ASPECT_PRESETS: CropAspectPreset[] = [
+    { id: '1:1', label: '1:1', aspect: 1 },
+    { id: '3:4', label: '3:4', aspect: 3 / 4 },
+    { id: '4:5', label: '4:5', aspect: 4 / 5 },
+    { id: '16:9', label: '16:9', aspect: 16 / 9 },
+    { id: 'free', label: 'Free' },
+];
+
+export function getCropAspect(id: CropAspectPresetId): number | undefined {
+    return CROP_ASPECT_PRESETS.find(preset => preset.id === id)?.aspect;
+}
+
+/**
+ * The part of an image a crop should be centered on, in natural pixels.
+ * `source` says how it was found, so the UI can explain the suggestion.
+ */
+export interface FocusArea extends SourceRegion {
+    source: 'face' | 'saliency' | 'center';
+}
+
+// The Shape Detection API isn't in TypeScript's DOM lib yet
+interface DetectedFace {
+    boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorInstance {
+    detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance;
+
+const SALIENCY_SAMPLE_SIZE = 64;
+
+async function detectFaces(image: DecodedImage): Promise<FocusArea | null> {
+    const FaceDetector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+    if (!FaceDetector) return null;
+
+    try {
+        const faces = await new FaceDetector({ fastMode: true, maxDetectedFaces: 5 }).detect(image);
+        if (faces.length === 0) return null;
+
+        // Keep every detected face in frame by focusing on their union
+        const left = Math.min(...faces.map(face => face.boundingBox.left));
+        const top = Math.min(...faces.map(face => face.boundingBox.top));
+        const right = Math.max(...faces.map(face => face.boundingBox.right));
+        const bottom = Math.max(...faces.map(face => face.boundingBox.bottom));
+        return { x: left, y: top, width: right - left, height: bottom - top, source: 'face' };
+    } catch (error) {
+        // Browsers can expose the API without a working backend
+        console.warn("Face detection is unavailable, falling back to saliency:", error);
+        return null;
+    }
+}
+
+/**
+ * Estimates where the subject is from a downscaled copy of the image: edges and saturated
+ * colors score high, with a mild bias toward the center where subjects usually are.
+ */
+function detectSalientArea(image: DecodedImage): FocusArea | null {
+    const { width: naturalWidth, height: naturalHeight } = imageSize(image);
+    const scale = SALIENCY_SAMPLE_SIZE / Math.max(naturalWidth, naturalHeight);
+    const width = Math.max(3, Math.round(naturalWidth * scale));
+    const height = Math.max(3, Math.round(naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const luminance = new Float32Array(width * height);
+    const saturation = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+        const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+        luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+        const max = Math.max(r, g, b);
+        saturation[i] = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+    }
+
+    let totalWeight = 0, sumX = 0, sumY = 0, sumXX = 0, sumYY = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const gradient = Math.abs(luminance[i + 1] - luminance[i - 1]) + Math.abs(luminance[i + width] - luminance[i - width]);
+            const dx = x / width - 0.5;
+            const dy = y / height - 0.5;
+            const centerBias = Math.exp(-(dx * dx + dy * dy) * 4);
+            const weight = (gradient / 255 + saturation[i] * 0.5) * centerBias;
+            totalWeight += weight;
+            sumX += weight * x;
+            sumY += weight * y;
+            sumXX += weight * x * x;
+            sumYY += weight * y * y;
+        }
+    }
+    if (totalWeight === 0) return null;
+
+    const meanX = sumX / totalWeight;
+    const meanY = sumY / totalWeight;
+    // One standard deviation either side of the centroid approximates the subject's extent
+    const spreadX = Math.sqrt(Math.max(0, sumXX / totalWeight - meanX * meanX));
+    const spreadY = Math.sqrt(Math.max(0, sumYY / totalWeight - meanY * meanY));
+    return {
+        x: (meanX - spreadX) / scale,
+        y: (meanY - spreadY) / scale,
+        width: (spreadX * 2) / scale,
+        height: (spreadY * 2) / scale,
+        source: 'saliency',
+    };
+}
+
+/**
+ * Finds what a crop of this image should be centered on: detected faces where the browser
+ * supports local face detection, otherwise the most visually busy area, otherwise the center.
+ * @param image A fully loaded image.
+ */
+export async function detectFocusArea(image: DecodedImage): Promise<FocusArea> {
+    const faces = await detectFaces(image);
+    if (faces) return faces;
+
+    try {
+        const salient = detectSalientArea(image);
+        if (salient) return salient;
+    } catch (error) {
+        console.warn("Saliency detection failed:", error);
+    }
+    const { width, height } = imageSize(image);
+    return { x: 0, y: 0, width, height, source: 'center' };
+}
+
+/**
+ * Places the largest sensible crop of the given aspect ratio around a focus area.
+ * Faces get a head-and-shoulders framing with the face slightly above center.
+ * @param focus The area to center on, in natural pixels.
+ * @param imageWidth The image's natural width.
+ * @param imageHeight The image's natural height.
+ * @param aspect Width divided by height; the image's own ratio is used when undefined.
+ * @returns The crop region in natural pixels, always inside the image.
+ */
+export function cropAroundFocus(focus: FocusArea, imageWidth: number, imageHeight: number, aspect?: number): SourceRegion {
+    const ratio = aspect ?? imageWidth / imageHeight;
+    const maxWidth = Math.min(imageWidth, imageHeight * ratio);
+    const maxHeight = maxWidth / ratio;
+
+    let height = maxHeight * 0.9;
+    if (focus.source === 'face') {
+        height = Math.min(maxHeight, Math.max(maxHeight * 0.5, focus.height * 3.5, focus.width * 3.5 / ratio));
+    }
+    const width = height * ratio;
+
+    const centerX = focus.x + focus.width / 2;
+    const centerY = focus.y + focus.height / 2 + (focus.source === 'face' ? height * 0.1 : 0);
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+    return {
+        x: clamp(centerX - width / 2, imageWidth - width),
+        y: clamp(centerY - height / 2, imageHeight - height),
+        width,
+        height,
+    };
+}
+
+/**
+ * Crops an image around its detected subject without user input, for batch cropping.
+ * @param source The image to crop.
+ * @param aspect Width divided by height, or undefined to keep the image's ratio.
+ * @returns The cropped image, prepared for upload.
+ */
+export async function autoCropImage(source: Blob, aspect?: number): Promise<Blob> {
+    const image = await decodeImage(source);
+    let region: SourceRegion;
+    try {
+        const { width, height } = imageSize(image);
+        region = cropAroundFocus(await detectFocusArea(image), width, height, aspect);
+    } finally {
+        releaseImage(image);
+    }
+    const { blob } = await prepareImageRegion(source, region);
+    return blob;
+}
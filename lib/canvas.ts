@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyCanvasContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+/** A decoded image that can be drawn onto any canvas. */
+export type DecodedImage = ImageBitmap | HTMLImageElement;
+
+/**
+ * Creates a canvas of the given size with a 2D context. Prefers OffscreenCanvas, which also
+ * works inside the image worker, and falls back to a <canvas> element where it's missing.
+ * @throws An Error if no 2D context is available.
+ */
+export function createCanvas(width: number, height: number): { canvas: AnyCanvas; ctx: AnyCanvasContext } {
+    let canvas: AnyCanvas;
+    if (typeof OffscreenCanvas !== 'undefined') {
+        canvas = new OffscreenCanvas(width, height);
+    } else {
+        canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+    }
+    const ctx = canvas.getContext('2d') as AnyCanvasContext | null;
+    if (!ctx) throw new Error('No 2d context');
+    return { canvas, ctx };
+}
+
+/**
+ * Encodes a canvas's contents.
+ * @param type The image MIME type, e.g. 'image/jpeg'.
+ * @param quality Encoding quality from 0 to 1, for lossy formats.
+ */
+export function canvasToBlob(canvas: AnyCanvas, type: string, quality?: number): Promise<Blob> {
+    if (!('toBlob' in canvas)) {
+        return canvas.convertToBlob({ type, quality });
+    }
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode canvas')), type, quality);
+    });
+}
+
+/**
+ * Decodes an encoded image so it can be drawn.
+ * @throws An Error if the image can't be decoded.
+ */
+export async function decodeImage(blob: Blob): Promise<DecodedImage> {
+    if (typeof createImageBitmap !== 'undefined') {
+        return createImageBitmap(blob);
+    }
+    const url = URL.createObjectURL(blob);
+    try {
+        return await new Promise<HTMLImageElement>((resolve, reject) => {
+            const img = new Image();
+            img.onload = () => resolve(img);
+            img.onerror = () => reject(new Error('Failed to decode image'));
+            img.src = url;
+        });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/**
+ * The pixel size of a decoded image.
+ */
+export function imageSize(image: DecodedImage): { width: number; height: number } {
+    return 'naturalWidth' in image
+        ? { width: image.naturalWidth, height: image.naturalHeight }
+        : { width: image.width, height: image.height };
+}
+
+/**
+ * Releases a decoded image's memory straight away rather than waiting for garbage collection.
+ */
+export function releaseImage(image: DecodedImage) {
+    if ('close' in image) image.close();
+}
+
+/**
+ * Samples an image down to a single average color.
+ * @returns The red, green and blue components, each 0-255.
+ */
+export function averageColor(image: DecodedImage): [number, number, number] {
+    const { ctx } = createCanvas(16, 16);
+    ctx.drawImage(image, 0, 0, 16, 16);
+    const { data } = ctx.getImageData(0, 0, 16, 16);
+    let r = 0, g = 0, b = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        r += data[i];
+        g += data[i + 1];
+        b += data[i + 2];
+    }
+    const pixels = data.length / 4;
+    return [Math.round(r / pixels), Math.round(g / pixels), Math.round(b / pixels)];
+}
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Image formats the Gemini image model accepts as inline data.
+ */
+export const MODEL_SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+export interface ParsedDataUrl {
+    /** Lower-cased media type, e.g. 'image/svg+xml'. Defaults to 'text/plain' per RFC 2397. */
+    mimeType: string;
+    /** Any `;key=value` parameters, e.g. `charset` or `name`. */
+    params: Record<string, string>;
+    /** The payload, always base64-encoded (percent-encoded payloads are converted). */
+    base64Data: string;
+}
+
+function utf8ToBase64(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Parses a data URL (RFC 2397), tolerating any media type and extra parameters,
+ * e.g. `data:image/svg+xml;charset=utf-8;base64,...` or `data:image/png;name=a.png;base64,...`.
+ * @returns The parsed parts, or null if the string is not a data URL.
+ */
+export function parseDataUrl(dataUrl: string): ParsedDataUrl | null {
+    if (!dataUrl.startsWith('data:')) return null;
+    const commaIndex = dataUrl.indexOf(',');
+    if (commaIndex === -1) return null;
+
+    const [rawMimeType, ...rawParams] = dataUrl.slice(5, commaIndex).split(';');
+    const payload = dataUrl.slice(commaIndex + 1);
+
+    let isBase64 = false;
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const trimmed = param.trim();
+        if (trimmed.toLowerCase() === 'base64') {
+            isBase64 = true;
+            continue;
+        }
+        const [key, ...value] = trimmed.split('=');
+        if (key) params[key.toLowerCase()] = value.join('=');
+    }
+
+    let base64Data: string;
+    try {
+        base64Data = isBase64 ? payload.replace(/\s/g, '') : utf8ToBase64(decodeURIComponent(payload));
+    } catch {
+        return null;
+    }
+
+    return {
+        mimeType: rawMimeType.trim().toLowerCase() || 'text/plain',
+        params,
+        base64Data,
+    };
+}
+
+/**
+ * The usual file extension for an image MIME type, e.g. 'jpg' for 'image/jpeg'.
+ */
+export function extensionForMimeType(mimeType: string): string {
+    switch (mimeType) {
+        case 'image/jpeg':
+            return 'jpg';
+        case 'image/svg+xml':
+            return 'svg';
+        default:
+            return mimeType.startsWith('image/') ? mimeType.slice('image/'.length) : 'bin';
+    }
+}
+
+/**
+ * Converts a base64 data URL into a Blob without a network round trip.
+ * @throws An Error if the string isn't a base64 data URL.
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const parsed = parseDataUrl(dataUrl);
+    if (!parsed) throw new Error('Not a base64 data URL');
+    const binary = atob(parsed.base64Data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: parsed.mimeType });
+}
+
+/**
+ * Reads a Blob as a base64 data URL.
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read blob'));
+        reader.readAsDataURL(blob);
+    });
+}
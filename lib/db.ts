@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+const DB_NAME = 'perfect-shot';
+const DB_VERSION = 3;
+
+export const STORES = {
+    runs: 'runs',
+    session: 'session',
+    presets: 'presets',
+    profiles: 'profiles',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates or upgrades) the app's IndexedDB database.
+ * The connection is shared across callers.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORES.runs)) {
+                    const runs = db.createObjectStore(STORES.runs, { keyPath: 'id' });
+                    runs.createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(STORES.session)) {
+                    db.createObjectStore(STORES.session);
+                }
+                if (!db.objectStoreNames.contains(STORES.presets)) {
+                    db.createObjectStore(STORES.presets, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(STORES.profiles)) {
+                    db.createObjectStore(STORES.profiles, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs a callback against a single object store and resolves once the transaction completes.
+ */
+export async function withStore<T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const result = requestToPromise(callback(transaction.objectStore(storeName)));
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    return result;
+}
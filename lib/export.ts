@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { extensionForMimeType } from './dataUrl';
+import { getImageBlob } from './imageStore';
+import type { GeneratedImage, MatchScore, OutputSettings, StyleControls, VariationMode } from '../types';
+
+/** How an album is saved: separate JPEG pages or a single PDF. */
+export type AlbumExportFormat = 'jpeg' | 'pdf';
+
+/**
+ * What produced a set of results, recorded in the ZIP manifest.
+ */
+export interface ExportContext {
+    runId?: string;
+    createdAt?: number;
+    prompt?: string;
+    variationMode?: VariationMode;
+    outputSettings?: OutputSettings;
+    styleControls?: StyleControls;
+}
+
+interface ManifestEntry {
+    file: string;
+    slot: number;
+    mimeType: string;
+    variation?: string;
+    seed?: number;
+    styleControls?: StyleControls;
+    favorite?: boolean;
+    score?: MatchScore;
+    /** The refinement instruction that produced this version, if it isn't the original. */
+    refinement?: string;
+    version: number;
+    versionCount: number;
+}
+
+interface ExportManifest {
+    app: 'Perfect Shot';
+    exportedAt: string;
+    runId?: string;
+    createdAt?: string;
+    prompt?: string;
+    variationMode?: VariationMode;
+    outputSettings?: OutputSettings;
+    styleControls?: StyleControls;
+    images: ManifestEntry[];
+}
+
+// A4 in millimetres, the unit jsPDF is created with
+const A4_WIDTH_MM = 210;
+const A4_HEIGHT_MM = 297;
+
+/**
+ * Bundles every successful result into a ZIP, named by slot with extensions matching
+ * their real format, plus a `manifest.json` describing the prompt and settings.
+ * JSZip is loaded only when first needed.
+ * @param results The result slots; pending and failed slots are skipped.
+ * @param context The run the results belong to.
+ * @returns The ZIP archive.
+ */
+export async function exportResultsZip(results: GeneratedImage[], context: ExportContext): Promise<Blob> {
+    const { default: JSZip } = await import('jszip');
+    const zip = new JSZip();
+
+    const images: ManifestEntry[] = [];
+    results.forEach((result, index) => {
+        if (result.status !== 'done' || !result.url) return;
+        const blob = getImageBlob(result.url);
+        const file = `perfect-shot-${index + 1}.${extensionForMimeType(blob.type)}`;
+        zip.file(file, blob);
+
+        const versionIndex = result.versionIndex ?? 0;
+        images.push({
+            file,
+            slot: index + 1,
+            mimeType: blob.type,
+            variation: result.variation?.label,
+            seed: result.variation?.seed,
+            styleControls: result.styleControls,
+            favorite: result.favorite,
+            score: result.versions?.[versionIndex]?.score,
+            refinement: result.versions?.[versionIndex]?.instruction,
+            version: versionIndex + 1,
+            versionCount: result.versions?.length ?? 1,
+        });
+    });
+
+    const manifest: ExportManifest = {
+        app: 'Perfect Shot',
+        exportedAt: new Date().toISOString(),
+        runId: context.runId,
+        createdAt: context.createdAt ? new Date(context.createdAt).toISOString() : undefined,
+        prompt: context.prompt,
+        variationMode: context.variationMode,
+        outputSettings: context.outputSettings,
+        styleControls: context.styleControls,
+        images,
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * Renders album pages into a print-ready A4 PDF, one page per image, full bleed.
+ * jsPDF is loaded only when first needed.
+ * @param pages JPEG album pages, as produced by `createAlbumPages`.
+ * @returns The PDF document.
+ */
+export async function exportAlbumPdf(pages: Blob[]): Promise<Blob> {
+    const { jsPDF } = await import('jspdf');
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+
+    const pageBytes = await Promise.all(pages.map(async page => new Uint8Array(await page.arrayBuffer())));
+    pageBytes.forEach((bytes, index) => {
+        if (index > 0) pdf.addPage('a4', 'portrait');
+        pdf.addImage(bytes, 'JPEG', 0, 0, A4_WIDTH_MM, A4_HEIGHT_MM, undefined, 'FAST');
+    });
+
+    return pdf.output('blob');
+}
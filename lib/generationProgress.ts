@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationProgress, GenerationStage, ImageStatus } from '../types';
+
+const STAGE_LABELS: Record<GenerationStage, string> = {
+    queued: 'Queued',
+    uploading: 'Uploading photos',
+    waiting: 'Waiting for the model',
+    retrying: 'Retrying',
+    processing: 'Finishing up',
+};
+
+// Rough share of a slot's total time that has passed once it reaches each stage. Most of it is spent waiting on the model.
+const STAGE_COMPLETION: Record<GenerationStage, number> = {
+    queued: 0,
+    uploading: 0.05,
+    waiting: 0.15,
+    retrying: 0.15,
+    processing: 0.9,
+};
+
+/**
+ * A short status line for a slot, e.g. "Retrying (attempt 2 of 3)".
+ */
+export function describeProgress(progress: GenerationProgress): string {
+    const label = STAGE_LABELS[progress.stage];
+    if (!progress.attempt || !progress.maxAttempts) return label;
+    return progress.stage === 'retrying'
+        ? `${label} (attempt ${progress.attempt} of ${progress.maxAttempts})`
+        : `${label} · attempt ${progress.attempt} of ${progress.maxAttempts}`;
+}
+
+/**
+ * Formats a duration as elapsed time, e.g. "0:07" or "1:32".
+ */
+export function formatElapsed(ms: number): string {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * How far along a run is, from 0 to 1. Finished slots, whether they succeeded or failed, count
+ * fully; pending slots count by the stage they last reported.
+ * @param slots Every slot in the run with its status and, while pending, its latest progress.
+ */
+export function runCompletion(slots: { status: ImageStatus; progress?: GenerationProgress }[]): number {
+    if (slots.length === 0) return 0;
+    const total = slots.reduce((sum, slot) =>
+        sum + (slot.status === 'pending' ? STAGE_COMPLETION[slot.progress?.stage ?? 'queued'] : 1), 0);
+    return total / slots.length;
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { STORES, withStore } from './db';
+import { fromStoredImage, toStoredImage } from './imageStore';
+import { toGenerationErrorInfo } from '../services/errors';
+import type { GeneratedImage, GenerationRun, ImageId, SessionSnapshot, StoredImage } from '../types';
+
+const CURRENT_SESSION_KEY = 'current';
+
+/**
+ * Prepares stored results for display. Slots that were still pending when the page
+ * went away can't resume, so they are surfaced as cancelled slots the user can regenerate.
+ * Errors saved as plain strings by older versions are converted to typed errors.
+ */
+function normalizeResults(results: GeneratedImage<StoredImage>[]): GeneratedImage<StoredImage>[] {
+    return results.map(image =>
+        image.status === 'pending'
+            ? { ...image, status: 'error', error: { kind: 'cancelled', message: "Generation was interrupted. Please regenerate." } }
+            : { ...image, error: toGenerationErrorInfo(image.error) }
+    );
+}
+
+function normalizeRun(run: GenerationRun<StoredImage>): GenerationRun<StoredImage> {
+    return { ...run, results: normalizeResults(run.results) };
+}
+
+function mapResultImages<From, To>(results: GeneratedImage<From>[], convert: (image: From) => To): GeneratedImage<To>[] {
+    return results.map(({ url, versions, ...result }) => ({
+        ...result,
+        url: url === undefined ? undefined : convert(url),
+        versions: versions?.map(version => ({ ...version, url: convert(version.url) })),
+    }));
+}
+
+function mapRunImages<From, To>(run: GenerationRun<From>, convert: (image: From) => To): GenerationRun<To> {
+    return {
+        ...run,
+        mainImages: run.mainImages.map(convert),
+        inspirationImages: run.inspirationImages.map(convert),
+        results: mapResultImages(run.results, convert),
+    };
+}
+
+/**
+ * Converts saved images into store IDs. A result's current version is also in its version
+ * chain, saved as the same Blob, so each distinct image is loaded only once.
+ */
+function createImageImporter(): (image: StoredImage) => ImageId {
+    const imported = new Map<StoredImage, ImageId>();
+    return image => {
+        let id = imported.get(image);
+        if (!id) {
+            id = fromStoredImage(image);
+            imported.set(image, id);
+        }
+        return id;
+    };
+}
+
+/**
+ * Loads a saved run's images into the image store so the run can be opened.
+ */
+export function importRun(run: GenerationRun<StoredImage>): GenerationRun {
+    return mapRunImages(run, createImageImporter());
+}
+
+/**
+ * Inserts or replaces a generation run.
+ */
+export async function saveRun(run: GenerationRun): Promise<void> {
+    const stored = mapRunImages(run, toStoredImage);
+    await withStore(STORES.runs, 'readwrite', store => store.put(stored));
+}
+
+/**
+ * Lists all saved runs, newest first, with their images as saved.
+ */
+export async function listRuns(): Promise<GenerationRun<StoredImage>[]> {
+    const runs = await withStore<GenerationRun<StoredImage>[]>(STORES.runs, 'readonly', store => store.index('createdAt').getAll());
+    return runs.reverse().map(normalizeRun);
+}
+
+/**
+ * Loads a saved run, with its images added to the image store.
+ */
+export async function getRun(id: string): Promise<GenerationRun | undefined> {
+    const run = await withStore<GenerationRun<StoredImage> | undefined>(STORES.runs, 'readonly', store => store.get(id));
+    return run && importRun(normalizeRun(run));
+}
+
+export async function deleteRun(id: string): Promise<void> {
+    await withStore(STORES.runs, 'readwrite', store => store.delete(id));
+}
+
+/**
+ * Persists the current working session so it can be restored after a reload.
+ */
+export async function saveSession(session: SessionSnapshot): Promise<void> {
+    const stored: SessionSnapshot<StoredImage> = {
+        ...session,
+        uploadedImages: session.uploadedImages.map(toStoredImage),
+        inspirationImages: session.inspirationImages.map(toStoredImage),
+        generatedImages: mapResultImages(session.generatedImages, toStoredImage),
+    };
+    await withStore(STORES.session, 'readwrite', store => store.put(stored, CURRENT_SESSION_KEY));
+}
+
+/**
+ * Loads the saved working session, with its images added to the image store.
+ */
+export async function loadSession(): Promise<SessionSnapshot | undefined> {
+    const session = await withStore<SessionSnapshot<StoredImage> | undefined>(STORES.session, 'readonly', store => store.get(CURRENT_SESSION_KEY));
+    if (!session) return undefined;
+
+    const importImage = createImageImporter();
+    return {
+        ...session,
+        appState: session.appState === 'generating' ? 'results-shown' : session.appState,
+        uploadedImages: session.uploadedImages.map(importImage),
+        inspirationImages: session.inspirationImages.map(importImage),
+        generatedImages: mapResultImages(normalizeResults(session.generatedImages), importImage),
+    };
+}
+
+export async function clearSession(): Promise<void> {
+    await withStore(STORES.session, 'readwrite', store => store.delete(CURRENT_SESSION_KEY));
+}
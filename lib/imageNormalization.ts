@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { canvasToBlob, createCanvas } from './canvas';
+
+/** Formats that can be passed through as-is; HEIC becomes JPEG and anything else is re-encoded as PNG. */
+const PASSTHROUGH_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+const HEIC_JPEG_QUALITY = 0.92;
+const MAX_FILE_BYTES = 50 * 1024 * 1024;
+
+/** What the upload inputs should offer in the file picker. */
+export const ACCEPTED_UPLOAD_TYPES = 'image/*,.heic,.heif,.avif';
+
+export interface ImageRejection {
+    fileName: string;
+    reason: string;
+}
+
+export interface NormalizedImages {
+    /** Images in a model-supported format (PNG, JPEG or WebP). */
+    accepted: Blob[];
+    rejected: ImageRejection[];
+}
+
+/**
+ * Thrown when a file can't be turned into a usable image; the message is shown to the user.
+ */
+class ImageRejectedError extends Error {
+    constructor(reason: string) {
+        super(reason);
+        this.name = 'ImageRejectedError';
+    }
+}
+
+function extensionOf(fileName: string): string {
+    const dotIndex = fileName.lastIndexOf('.');
+    return dotIndex === -1 ? '' : fileName.slice(dotIndex + 1).toLowerCase();
+}
+
+function isHeic(file: File): boolean {
+    return HEIC_MIME_TYPES.includes(file.type) || ['heic', 'heif'].includes(extensionOf(file.name));
+}
+
+/**
+ * Decodes a blob with the browser's native decoders.
+ * @returns An image element, or null if the browser can't decode this format.
+ */
+function decodeNatively(blob: Blob): Promise<HTMLImageElement | null> {
+    return new Promise(resolve => {
+        const url = URL.createObjectURL(blob);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img.naturalWidth > 0 ? img : null);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            resolve(null);
+        };
+        img.src = url;
+    });
+}
+
+/**
+ * Converts HEIC/HEIF to JPEG with a WebAssembly decoder, for browsers (i.e. most but Safari)
+ * that can't decode it natively. The decoder is loaded only when first needed.
+ */
+async function convertHeic(blob: Blob): Promise<Blob> {
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob, toType: 'image/jpeg', quality: HEIC_JPEG_QUALITY });
+    return Array.isArray(result) ? result[0] : result;
+}
+
+function encodeImage(img: HTMLImageElement, type: string, quality?: number): Promise<Blob> {
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    return canvasToBlob(canvas, type, quality);
+}
+
+/**
+ * Turns a single file into an image in a model-supported format.
+ * @throws An ImageRejectedError explaining why the file can't be used.
+ */
+async function normalizeImageFile(file: File): Promise<Blob> {
+    if (file.size > MAX_FILE_BYTES) {
+        throw new ImageRejectedError(`File is larger than ${MAX_FILE_BYTES / (1024 * 1024)} MB.`);
+    }
+    const heic = isHeic(file);
+    if (!heic && !file.type.startsWith('image/')) {
+        throw new ImageRejectedError(`"${file.type || extensionOf(file.name) || 'unknown'}" is not an image format.`);
+    }
+
+    // Formats the model accepts directly only need a sanity check that they decode
+    if (PASSTHROUGH_MIME_TYPES.includes(file.type)) {
+        if (!(await decodeNatively(file))) {
+            throw new ImageRejectedError("The file appears to be damaged and could not be decoded.");
+        }
+        return file;
+    }
+
+    const img = await decodeNatively(file);
+    if (heic) {
+        // Photos stay JPEG; as PNG every phone photo would upload several times larger
+        if (img) return encodeImage(img, 'image/jpeg', HEIC_JPEG_QUALITY);
+        let converted: Blob | null = null;
+        try {
+            converted = await convertHeic(file);
+        } catch (err) {
+            console.error(`HEIC conversion failed for ${file.name}:`, err);
+        }
+        if (!converted || !(await decodeNatively(converted))) {
+            throw new ImageRejectedError("This HEIC photo could not be converted. Try exporting it as JPEG.");
+        }
+        return converted;
+    }
+    if (!img) {
+        throw new ImageRejectedError(`This browser can't decode ${file.type || extensionOf(file.name).toUpperCase() || 'this format'} images.`);
+    }
+    // GIFs contribute their first frame; SVGs are rasterized at their intrinsic size
+    return encodeImage(img, 'image/png');
+}
+
+/**
+ * Normalizes uploaded or pasted files so every accepted image is PNG, JPEG or WebP.
+ * Files are processed independently: one bad file doesn't reject the rest.
+ * @param files The files to process, in order.
+ * @returns The accepted images in their original order, and the rejected files with reasons.
+ */
+export async function normalizeImageFiles(files: File[]): Promise<NormalizedImages> {
+    const results = await Promise.allSettled(files.map(normalizeImageFile));
+
+    const accepted: Blob[] = [];
+    const rejected: ImageRejection[] = [];
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            accepted.push(result.value);
+        } else {
+            const reason = result.reason instanceof ImageRejectedError ? result.reason.message : "The file could not be read.";
+            if (!(result.reason instanceof ImageRejectedError)) {
+                console.error(`Failed to read ${files[index].name}:`, result.reason);
+            }
+            rejected.push({ fileName: files[index].name || 'Pasted image', reason });
+        }
+    });
+    return { accepted, rejected };
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { canvasToBlob, createCanvas, type DecodedImage } from './canvas';
+
+export interface ImagePreparationOptions {
+    /** Longest side of the output, in pixels. */
+    maxDimension: number;
+    /** Target size of the encoded image, in bytes. */
+    maxBytes: number;
+    mimeType: 'image/jpeg' | 'image/webp';
+    /** Encoding quality to start from; lowered step by step until the budget is met. */
+    initialQuality: number;
+    /** Lowest quality to try before shrinking the image further. */
+    minQuality: number;
+}
+
+export const DEFAULT_PREPARATION_OPTIONS: ImagePreparationOptions = {
+    maxDimension: 1536,
+    maxBytes: 500 * 1024,
+    mimeType: 'image/jpeg',
+    initialQuality: 0.9,
+    minQuality: 0.6,
+};
+
+export interface SourceRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PreparedImage {
+    blob: Blob;
+    bytes: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Formats a byte count for display, e.g. "1.4 MB".
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Crops, downscales and re-encodes an image so it is cheap to send to the model.
+ * Drawing through a canvas also drops EXIF and other metadata from the original file.
+ * Runs on any canvas, so it can be called inside the image worker; see `prepareImageRegion`
+ * in imageProcessing for the usual entry point.
+ * @param source The decoded source image.
+ * @param region The area of the source to keep, in the source's natural pixels.
+ * @param options Size and quality limits.
+ * @returns The encoded image and its size.
+ */
+export async function prepareImage(
+    source: DecodedImage,
+    region: SourceRegion,
+    options: ImagePreparationOptions = DEFAULT_PREPARATION_OPTIONS
+): Promise<PreparedImage> {
+    let scale = Math.min(1, options.maxDimension / Math.max(region.width, region.height));
+
+    // Shrink until the smallest acceptable quality fits the byte budget
+    for (;;) {
+        const width = Math.max(1, Math.round(region.width * scale));
+        const height = Math.max(1, Math.round(region.height * scale));
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.imageSmoothingQuality = 'high';
+        // JPEG has no alpha; flatten transparent areas onto white instead of black
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+
+        for (let quality = options.initialQuality; quality >= options.minQuality - 1e-9; quality -= 0.1) {
+            const blob = await canvasToBlob(canvas, options.mimeType, quality);
+            if (blob.size <= options.maxBytes || Math.max(width, height) <= 256) {
+                return { blob, bytes: blob.size, width, height };
+            }
+        }
+        scale *= 0.8;
+    }
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { DEFAULT_ALBUM_OPTIONS, type AlbumOptions, type AlbumPhoto } from './albumUtils';
+import { getImageBlob } from './imageStore';
+import { DEFAULT_PREPARATION_OPTIONS, type ImagePreparationOptions, type PreparedImage, type SourceRegion } from './imagePreparation';
+import { performImageTask, type ImageTask, type ImageTaskKind, type ImageTaskResponse, type ImageTaskResults } from './imageTasks';
+import type { OutputSettings } from '../types';
+
+interface PendingTask {
+    task: ImageTask;
+    resolve: (result: ImageTaskResults[ImageTaskKind]) => void;
+    reject: (error: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextTaskId = 0;
+const pendingTasks = new Map<number, PendingTask>();
+
+function supportsImageWorker(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+}
+
+function runOnMainThread(pending: PendingTask) {
+    performImageTask(pending.task).then(pending.resolve, pending.reject);
+}
+
+function disableWorker(reason: unknown) {
+    console.warn('Image worker unavailable, processing images on the main thread instead:', reason);
+    workerUnavailable = true;
+    worker?.terminate();
+    worker = null;
+    const stranded = [...pendingTasks.values()];
+    pendingTasks.clear();
+    stranded.forEach(runOnMainThread);
+}
+
+function getWorker(): Worker | null {
+    if (worker || workerUnavailable) return worker;
+    if (!supportsImageWorker()) {
+        workerUnavailable = true;
+        return null;
+    }
+    try {
+        worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        disableWorker(error);
+        return null;
+    }
+    worker.onmessage = ({ data }: MessageEvent<ImageTaskResponse>) => {
+        const pending = pendingTasks.get(data.id);
+        if (!pending) return;
+        pendingTasks.delete(data.id);
+        if ('result' in data) {
+            pending.resolve(data.result);
+        } else {
+            // Some browsers lack pieces of OffscreenCanvas the task needed; the main thread may still manage
+            console.warn('Image worker task failed, retrying on the main thread:', data.error);
+            runOnMainThread(pending);
+        }
+    };
+    worker.onerror = (event) => {
+        event.preventDefault();
+        disableWorker(event.message || 'worker failed to start');
+    };
+    return worker;
+}
+
+/**
+ * Runs canvas work off the main thread, in a worker with OffscreenCanvas, so the page stays
+ * responsive while large images are encoded. Falls back to the main thread where workers
+ * or OffscreenCanvas aren't available, or if the worker fails.
+ * @param task The work to do and its inputs.
+ * @returns The task's result.
+ */
+function runImageTask<K extends ImageTaskKind>(task: Extract<ImageTask, { kind: K }>): Promise<ImageTaskResults[K]> {
+    return new Promise((resolve, reject) => {
+        const pending: PendingTask = {
+            task,
+            resolve: result => resolve(result as ImageTaskResults[K]),
+            reject,
+        };
+        const target = getWorker();
+        if (!target) {
+            runOnMainThread(pending);
+            return;
+        }
+        const id = nextTaskId++;
+        pendingTasks.set(id, pending);
+        target.postMessage({ id, task });
+    });
+}
+
+/**
+ * Crops, downscales and re-encodes an image so it is cheap to send to the model.
+ * @param image The source image.
+ * @param region The area to keep, in the source's natural pixels.
+ * @param options Size and quality limits.
+ * @returns The encoded image, with its size.
+ */
+export function prepareImageRegion(
+    image: Blob,
+    region: SourceRegion,
+    options: ImagePreparationOptions = DEFAULT_PREPARATION_OPTIONS
+): Promise<PreparedImage> {
+    return runImageTask({ kind: 'prepare', image, region, options });
+}
+
+/**
+ * Resizes an image to exactly the target ratio and size, either cropping the edges
+ * (centered) or letterboxing it on a solid background.
+ * @param image The image returned by the model.
+ * @param settings The target format.
+ * @returns A JPEG with the exact output dimensions.
+ */
+export function conformToOutputFormat(image: Blob, settings: OutputSettings): Promise<Blob> {
+    return runImageTask({ kind: 'conform', image, settings });
+}
+
+/**
+ * Renders a photo album, splitting the photos across as many pages as the layout needs.
+ * @param photos The photos in album order, with optional captions.
+ * @param options The layout template, header text and rotation seed.
+ * @returns One JPEG per page.
+ */
+export function createAlbumPages(photos: AlbumPhoto[], options: AlbumOptions = DEFAULT_ALBUM_OPTIONS): Promise<Blob[]> {
+    const images = photos.map(photo => getImageBlob(photo.url));
+    return runImageTask({ kind: 'album', images, captions: photos.map(photo => photo.caption), options });
+}
+
+/**
+ * Converts a painted mask into the white-on-black form image models expect.
+ * @param paintedMask A PNG the size of the image it applies to, opaque where the user painted
+ * and transparent elsewhere, as produced by the mask editor.
+ * @returns A PNG, white where the image should change and black elsewhere.
+ */
+export function toModelMask(paintedMask: Blob): Promise<Blob> {
+    return runImageTask({ kind: 'mask', mask: paintedMask });
+}
+
+/**
+ * Pastes the masked region of an edited image back onto the original, keeping the rest
+ * of the original exactly.
+ * @param sourceImage The image before the edit.
+ * @param editedImage The model's edited version of it.
+ * @param paintedMask The painted mask, the same size as the source.
+ * @returns A lossless PNG the size of the source.
+ */
+export function compositeMaskedEdit(sourceImage: Blob, editedImage: Blob, paintedMask: Blob): Promise<Blob> {
+    return runImageTask({ kind: 'composite', source: sourceImage, edited: editedImage, mask: paintedMask });
+}
+
+/**
+ * Samples an image down to a single average color.
+ * @returns The red, green and blue components, each 0-255.
+ */
+export function averageImageColor(image: Blob): Promise<[number, number, number]> {
+    return runImageTask({ kind: 'average-color', image });
+}
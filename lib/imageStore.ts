@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { dataUrlToBlob } from './dataUrl';
+import type { ImageId, StoredImage } from '../types';
+
+interface StoreEntry {
+    blob: Blob;
+    /** Set once the image has shown up in the app's state; only adopted images are swept. */
+    adopted: boolean;
+}
+
+const entries = new Map<ImageId, StoreEntry>();
+
+/**
+ * Adds an image to the store.
+ * @returns Its ID, which is also an object URL for displaying it.
+ */
+export function addImage(blob: Blob): ImageId {
+    const id = URL.createObjectURL(blob);
+    entries.set(id, { blob, adopted: false });
+    return id;
+}
+
+/**
+ * The encoded image behind an ID.
+ * @throws An Error if the image was never added or has been released.
+ */
+export function getImageBlob(id: ImageId): Blob {
+    const entry = entries.get(id);
+    if (!entry) throw new Error('This image is no longer available.');
+    return entry.blob;
+}
+
+/**
+ * Drops an image and revokes its object URL, e.g. a result that was generated but not kept.
+ */
+export function releaseImage(id: ImageId) {
+    if (entries.delete(id)) URL.revokeObjectURL(id);
+}
+
+/**
+ * Releases every image that was in use but isn't anymore. Images added since the last sweep
+ * that haven't reached the app's state yet, such as results still being scored, are kept.
+ * @param inUse Every image the app currently refers to.
+ */
+export function releaseUnusedImages(inUse: Iterable<ImageId>) {
+    const live = new Set(inUse);
+    for (const [id, entry] of entries) {
+        if (live.has(id)) {
+            entry.adopted = true;
+        } else if (entry.adopted) {
+            releaseImage(id);
+        }
+    }
+}
+
+/**
+ * The combined encoded size of several images, in bytes.
+ */
+export function totalImageBytes(ids: ImageId[]): number {
+    return ids.reduce((total, id) => total + (entries.get(id)?.blob.size ?? 0), 0);
+}
+
+/**
+ * Gets the Blob to save for an image.
+ */
+export function toStoredImage(id: ImageId): Blob {
+    return getImageBlob(id);
+}
+
+/**
+ * Brings a saved image back into the store, converting data URLs saved by older versions.
+ */
+export function fromStoredImage(image: StoredImage): ImageId {
+    return addImage(typeof image === 'string' ? dataUrlToBlob(image) : image);
+}
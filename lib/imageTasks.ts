@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { renderAlbumPages, type AlbumOptions } from './albumUtils';
+import { averageColor, decodeImage, releaseImage } from './canvas';
+import { prepareImage, type ImagePreparationOptions, type PreparedImage, type SourceRegion } from './imagePreparation';
+import { renderMaskedComposite, renderModelMask } from './inpainting';
+import { renderOutputFormat } from './outputFormat';
+import type { OutputSettings } from '../types';
+
+/**
+ * Canvas work that can run either in the image worker or on the main thread.
+ * Images travel as Blobs so they can be posted to the worker without base64 encoding.
+ */
+export type ImageTask =
+    | { kind: 'prepare'; image: Blob; region: SourceRegion; options: ImagePreparationOptions }
+    | { kind: 'conform'; image: Blob; settings: OutputSettings }
+    | { kind: 'album'; images: Blob[]; captions: (string | undefined)[]; options: AlbumOptions }
+    | { kind: 'mask'; mask: Blob }
+    | { kind: 'composite'; source: Blob; edited: Blob; mask: Blob }
+    | { kind: 'average-color'; image: Blob };
+
+export interface ImageTaskResults {
+    prepare: PreparedImage;
+    conform: Blob;
+    album: Blob[];
+    mask: Blob;
+    composite: Blob;
+    'average-color': [number, number, number];
+}
+
+export type ImageTaskKind = ImageTask['kind'];
+
+/** Messages posted to the image worker. */
+export interface ImageTaskRequest {
+    id: number;
+    task: ImageTask;
+}
+
+/** Messages posted back by the image worker, answering the request with the same id. */
+export type ImageTaskResponse =
+    | { id: number; result: ImageTaskResults[ImageTaskKind] }
+    | { id: number; error: string };
+
+/**
+ * Runs one task in the current thread.
+ * @param task The work to do and its inputs.
+ * @returns The task's result; decoded images are released before it resolves.
+ */
+export async function performImageTask<K extends ImageTaskKind>(task: Extract<ImageTask, { kind: K }>): Promise<ImageTaskResults[K]> {
+    // Narrow on a widened copy; TypeScript doesn't narrow generic unions
+    const work = task as ImageTask;
+    switch (work.kind) {
+        case 'prepare': {
+            const image = await decodeImage(work.image);
+            try {
+                return await prepareImage(image, work.region, work.options) as ImageTaskResults[K];
+            } finally {
+                releaseImage(image);
+            }
+        }
+        case 'conform': {
+            const image = await decodeImage(work.image);
+            try {
+                return await renderOutputFormat(image, work.settings) as ImageTaskResults[K];
+            } finally {
+                releaseImage(image);
+            }
+        }
+        case 'album': {
+            const images = await Promise.all(work.images.map(decodeImage));
+            try {
+                const photos = images.map((image, index) => ({ image, caption: work.captions[index] }));
+                return await renderAlbumPages(photos, work.options) as ImageTaskResults[K];
+            } finally {
+                images.forEach(releaseImage);
+            }
+        }
+        case 'mask': {
+            const mask = await decodeImage(work.mask);
+            try {
+                return await renderModelMask(mask) as ImageTaskResults[K];
+            } finally {
+                releaseImage(mask);
+            }
+        }
+        case 'composite': {
+            const images = await Promise.all([work.source, work.edited, work.mask].map(decodeImage));
+            try {
+                const [source, edited, mask] = images;
+                return await renderMaskedComposite(source, edited, mask) as ImageTaskResults[K];
+            } finally {
+                images.forEach(releaseImage);
+            }
+        }
+        case 'average-color': {
+            const image = await decodeImage(work.image);
+            try {
+                return averageColor(image) as ImageTaskResults[K];
+            } finally {
+                releaseImage(image);
+            }
+        }
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { performImageTask, type ImageTaskRequest, type ImageTaskResponse } from './imageTasks';
+
+// The stylesheet index.html loads; the worker can't see the page's fonts, so it loads its own copy
+const FONT_STYLESHEET_URL = 'https://fonts.googleapis.com/css2?family=Poppins:wght@400;700&display=swap';
+const LATIN_RANGE_START = 'U+0000-00FF';
+
+interface WorkerScope {
+    fonts: FontFaceSet;
+    postMessage: (message: ImageTaskResponse) => void;
+    onmessage: ((event: MessageEvent<ImageTaskRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+/**
+ * Loads the latin Poppins faces so album text matches the page. Canvas text never triggers
+ * font loading by itself, so the faces are loaded up front.
+ */
+async function loadAlbumFonts(): Promise<void> {
+    const response = await fetch(FONT_STYLESHEET_URL);
+    if (!response.ok) throw new Error(`Font stylesheet request failed with status ${response.status}`);
+    const css = await response.text();
+
+    const faces = css.split('@font-face').slice(1).flatMap(block => {
+        const weight = block.match(/font-weight:\s*(\d+)/)?.[1];
+        const url = block.match(/src:\s*url\(([^)]+)\)/)?.[1];
+        const range = block.match(/unicode-range:\s*([^;]+)/)?.[1];
+        if (!weight || !url || !range?.startsWith(LATIN_RANGE_START)) return [];
+        return [new FontFace('Poppins', `url(${url})`, { weight, unicodeRange: range })];
+    });
+
+    await Promise.all(faces.map(async face => scope.fonts.add(await face.load())));
+}
+
+let fontsReady: Promise<void> | null = null;
+
+function ensureAlbumFonts(): Promise<void> {
+    fontsReady ??= loadAlbumFonts().catch(error => {
+        // Album text falls back to the default sans-serif
+        console.warn('Could not load album fonts in the image worker:', error);
+    });
+    return fontsReady;
+}
+
+scope.onmessage = async ({ data: { id, task } }) => {
+    try {
+        if (task.kind === 'album') await ensureAlbumFonts();
+        scope.postMessage({ id, result: await performImageTask(task) });
+    } catch (error) {
+        scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+};
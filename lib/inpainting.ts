@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { canvasToBlob, createCanvas, imageSize, type DecodedImage } from './canvas';
+
+/**
+ * Converts a painted mask into the white-on-black form image models expect.
+ * @param mask The painted mask, the size of the image it applies to, opaque where the user painted
+ * and transparent elsewhere, as produced by the mask editor.
+ * @returns A PNG, white where the image should change and black elsewhere.
+ */
+export function renderModelMask(mask: DecodedImage): Promise<Blob> {
+    const { width, height } = imageSize(mask);
+    const { canvas, ctx } = createCanvas(width, height);
+
+    ctx.drawImage(mask, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    return canvasToBlob(canvas, 'image/png');
+}
+
+/**
+ * Pastes the masked region of an edited image back onto the original. The model may
+ * return a different size or drift elsewhere in the frame, so only painted pixels are taken
+ * from the edit; the rest of the original is kept exactly.
+ * @param source The image before the edit.
+ * @param edited The model's edited version of it.
+ * @param mask The painted mask, the same size as the source.
+ * @returns A lossless PNG the size of the source.
+ */
+export function renderMaskedComposite(source: DecodedImage, edited: DecodedImage, mask: DecodedImage): Promise<Blob> {
+    const { width, height } = imageSize(source);
+
+    // Cut the edited image down to the painted region, scaled to cover the source frame
+    const patch = createCanvas(width, height);
+    const editedSize = imageSize(edited);
+    const scale = Math.max(width / editedSize.width, height / editedSize.height);
+    const drawWidth = editedSize.width * scale;
+    const drawHeight = editedSize.height * scale;
+    patch.ctx.imageSmoothingQuality = 'high';
+    patch.ctx.drawImage(edited, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    patch.ctx.globalCompositeOperation = 'destination-in';
+    patch.ctx.drawImage(mask, 0, 0, width, height);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(source, 0, 0);
+    ctx.drawImage(patch.canvas, 0, 0);
+
+    // PNG so the untouched pixels aren't altered by another round of JPEG compression
+    return canvasToBlob(canvas, 'image/png');
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { canvasToBlob, createCanvas, imageSize, type DecodedImage } from './canvas';
+import type { OutputAspectRatio, OutputFit, OutputSettings, OutputSize } from '../types';
+
+export const OUTPUT_ASPECT_RATIOS: { value: OutputAspectRatio; label: string; ratio: number; orientation: string }[] = [
+    { value: '1:1', label: '1:1', ratio: 1, orientation: 'square' },
+    { value: '3:4', label: '3:4', ratio: 3 / 4, orientation: 'portrait' },
+    { value: '4:3', label: '4:3', ratio: 4 / 3, orientation: 'landscape' },
+    { value: '9:16', label: '9:16', ratio: 9 / 16, orientation: 'tall portrait' },
+    { value: '16:9', label: '16:9', ratio: 16 / 9, orientation: 'wide landscape' },
+];
+
+export const OUTPUT_SIZES: { value: OutputSize; label: string; longestSide: number }[] = [
+    { value: 'small', label: 'Small (1024 px)', longestSide: 1024 },
+    { value: 'medium', label: 'Medium (1536 px)', longestSide: 1536 },
+    { value: 'large', label: 'Large (2048 px)', longestSide: 2048 },
+];
+
+export const OUTPUT_FITS: { value: OutputFit; label: string }[] = [
+    { value: 'crop', label: 'Crop to fill' },
+    { value: 'letterbox', label: 'Letterbox' },
+];
+
+/** 3:4 cropped to fill matches how results were shown before the setting existed. */
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+    aspectRatio: '3:4',
+    size: 'medium',
+    fit: 'crop',
+};
+
+const LETTERBOX_COLOR = '#000';
+
+/**
+ * Width divided by height for an aspect ratio setting.
+ */
+export function aspectRatioValue(aspectRatio: OutputAspectRatio): number {
+    return OUTPUT_ASPECT_RATIOS.find(option => option.value === aspectRatio)?.ratio ?? 3 / 4;
+}
+
+/**
+ * The pixel dimensions results are delivered at.
+ */
+export function outputDimensions(settings: OutputSettings): { width: number; height: number } {
+    const longestSide = OUTPUT_SIZES.find(option => option.value === settings.size)?.longestSide ?? 1536;
+    const ratio = aspectRatioValue(settings.aspectRatio);
+    return ratio >= 1
+        ? { width: longestSide, height: Math.round(longestSide / ratio) }
+        : { width: Math.round(longestSide * ratio), height: longestSide };
+}
+
+/**
+ * Names the target frame for prompts, e.g. "3:4 portrait".
+ */
+export function describeAspectRatio(settings: OutputSettings): string {
+    const option = OUTPUT_ASPECT_RATIOS.find(candidate => candidate.value === settings.aspectRatio);
+    return `${settings.aspectRatio} ${option?.orientation ?? 'portrait'}`;
+}
+
+/**
+ * A prompt sentence asking the model to compose for the target frame, so the
+ * post-processing step has as little as possible to crop or pad.
+ */
+export function describeOutputFormat(settings: OutputSettings): string {
+    return `Compose the image for a ${describeAspectRatio(settings)} frame, keeping the person and important details well inside it.`;
+}
+
+/**
+ * Resizes an image to exactly the target ratio and size, either cropping the edges
+ * (centered) or letterboxing it on a solid background. Runs on any canvas, so it can be
+ * called inside the image worker; see `conformToOutputFormat` in imageProcessing for the
+ * usual entry point.
+ * @param image The decoded image returned by the model.
+ * @param settings The target format.
+ * @returns A JPEG with the exact output dimensions.
+ */
+export async function renderOutputFormat(image: DecodedImage, settings: OutputSettings): Promise<Blob> {
+    const { width, height } = outputDimensions(settings);
+    const { canvas, ctx } = createCanvas(width, height);
+
+    ctx.fillStyle = LETTERBOX_COLOR;
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+
+    const source = imageSize(image);
+    const scale = settings.fit === 'crop'
+        ? Math.max(width / source.width, height / source.height)
+        : Math.min(width / source.width, height / source.height);
+    const drawWidth = source.width * scale;
+    const drawHeight = source.height * scale;
+    ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+    return canvasToBlob(canvas, 'image/jpeg', 0.92);
+}
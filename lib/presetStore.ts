@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { STORES, withStore } from './db';
+import { MODEL_SUPPORTED_MIME_TYPES, blobToDataUrl, dataUrlToBlob, parseDataUrl } from './dataUrl';
+import type { StoredImage, VibePreset } from '../types';
+
+const PRESET_FILE_FORMAT = 'perfect-shot-presets';
+const PRESET_FILE_VERSION = 1;
+
+/**
+ * The portable file presets are shared in. Images are embedded as data URLs
+ * so a single file carries the whole look.
+ */
+interface PresetFile {
+    format: typeof PRESET_FILE_FORMAT;
+    version: number;
+    presets: Array<Pick<VibePreset<string>, 'name' | 'inspirationImages' | 'prompt'>>;
+}
+
+/**
+ * Inserts or replaces a preset.
+ */
+export async function savePreset(preset: VibePreset<StoredImage>): Promise<void> {
+    await withStore(STORES.presets, 'readwrite', store => store.put(preset));
+}
+
+/**
+ * Lists all saved presets, alphabetically by name, with their images as saved.
+ */
+export async function listPresets(): Promise<VibePreset<StoredImage>[]> {
+    const presets = await withStore<VibePreset<StoredImage>[]>(STORES.presets, 'readonly', store => store.getAll());
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function deletePreset(id: string): Promise<void> {
+    await withStore(STORES.presets, 'readwrite', store => store.delete(id));
+}
+
+/**
+ * Serializes presets into a shareable JSON file.
+ */
+export async function exportPresets(presets: VibePreset<StoredImage>[]): Promise<Blob> {
+    const file: PresetFile = {
+        format: PRESET_FILE_FORMAT,
+        version: PRESET_FILE_VERSION,
+        presets: await Promise.all(presets.map(async ({ name, inspirationImages, prompt }) => ({
+            name,
+            inspirationImages: await Promise.all(inspirationImages.map(image => typeof image === 'string' ? image : blobToDataUrl(image))),
+            prompt,
+        }))),
+    };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+function isSupportedImage(value: unknown): value is string {
+    if (typeof value !== 'string') return false;
+    const parsed = parseDataUrl(value);
+    return !!parsed && MODEL_SUPPORTED_MIME_TYPES.includes(parsed.mimeType);
+}
+
+/**
+ * Parses a preset file exported by `exportPresets`. Imported presets get fresh ids,
+ * so importing never overwrites presets that already exist.
+ * @param text The file contents.
+ * @returns The presets, ready to save.
+ * @throws An Error with a user-facing message if the file isn't a valid preset file.
+ */
+export function parsePresetFile(text: string): VibePreset<StoredImage>[] {
+    let file: Partial<PresetFile>;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error("This file isn't valid JSON.");
+    }
+    if (file?.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+        throw new Error("This isn't a Perfect Shot preset file.");
+    }
+    if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+        throw new Error("This preset file was made by a newer version of Perfect Shot.");
+    }
+
+    const now = Date.now();
+    return file.presets.map((preset, index) => {
+        const name = typeof preset?.name === 'string' ? preset.name.trim() : '';
+        if (!name) {
+            throw new Error(`Preset ${index + 1} has no name.`);
+        }
+        if (!Array.isArray(preset.inspirationImages) || preset.inspirationImages.length === 0 || !preset.inspirationImages.every(isSupportedImage)) {
+            throw new Error(`Preset "${name}" has missing or unsupported images.`);
+        }
+        return {
+            id: crypto.randomUUID(),
+            name,
+            inspirationImages: preset.inspirationImages.map(dataUrlToBlob),
+            prompt: typeof preset.prompt === 'string' ? preset.prompt : '',
+            createdAt: now,
+            updatedAt: now,
+        };
+    });
+}
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { STORES, withStore } from './db';
+import type { StoredImage, SubjectProfile } from '../types';
+
+/**
+ * Inserts or replaces a subject profile.
+ */
+export async function saveProfile(profile: SubjectProfile<StoredImage>): Promise<void> {
+    await withStore(STORES.profiles, 'readwrite', store => store.put(profile));
+}
+
+/**
+ * Lists all saved subject profiles, alphabetically by name, with their images as saved.
+ */
+export async function listProfiles(): Promise<SubjectProfile<StoredImage>[]> {
+    const profiles = await withStore<SubjectProfile<StoredImage>[]>(STORES.profiles, 'readonly', store => store.getAll());
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function deleteProfile(id: string): Promise<void> {
+    await withStore(STORES.profiles, 'readwrite', store => store.delete(id));
+}
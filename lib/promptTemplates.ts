@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { PromptTemplate } from '../types';
+
+/**
+ * The values a template can reference. Booleans and empty strings are mainly useful
+ * in sections: `{{#name}}...{{/name}}` renders only when the value is set,
+ * `{{^name}}...{{/name}}` only when it isn't.
+ */
+export interface PromptContext {
+    subjectCount: number;
+    vibeCount: number;
+    multipleSubjects: boolean;
+    userInstructions: string;
+    subjectNotes: string;
+    variation: string;
+    /** e.g. "3:4 portrait", or empty when results keep the model's own shape. */
+    aspectRatio: string;
+    /** e.g. "50/100". */
+    styleStrength: string;
+    /** e.g. "50/100". */
+    identityFidelity: string;
+    /** A sentence describing how far to take the vibe, matching `styleStrength`. */
+    styleGuidance: string;
+    /** A sentence describing how closely to keep the likeness, matching `identityFidelity`. */
+    identityGuidance: string;
+}
+
+export type PromptPlaceholder = keyof PromptContext;
+
+export const PROMPT_PLACEHOLDERS: { name: PromptPlaceholder; description: string }[] = [
+    { name: 'subjectCount', description: 'Number of photos of the person' },
+    { name: 'vibeCount', description: 'Number of vibe photos' },
+    { name: 'multipleSubjects', description: 'Set when there is more than one photo of the person' },
+    { name: 'userInstructions', description: 'The optional instructions typed by the user' },
+    { name: 'subjectNotes', description: "Notes from the subject's profile" },
+    { name: 'variation', description: "This slot's creative direction" },
+    { name: 'aspectRatio', description: 'The output ratio, e.g. "3:4 portrait"' },
+    { name: 'styleStrength', description: 'How strongly to apply the vibe, e.g. "50/100"' },
+    { name: 'identityFidelity', description: 'How closely to preserve the likeness, e.g. "50/100"' },
+    { name: 'styleGuidance', description: 'A sentence asking for that much style' },
+    { name: 'identityGuidance', description: 'A sentence asking for that much likeness' },
+];
+
+const PLACEHOLDER_NAMES = new Set<string>(PROMPT_PLACEHOLDERS.map(placeholder => placeholder.name));
+
+const IDENTITY_LINE = `1. Represent the person from the main photos. {{identityGuidance}}{{#subjectNotes}} Details about this person to preserve: {{subjectNotes}}{{/subjectNotes}}`;
+
+const REFERENCE_LINE = `{{#multipleSubjects}}3. The first main photo is the primary reference. Base the person's likeness and starting pose on it, and use the other main photos to fill in details from other angles. You can subtly adjust the pose to better fit the new style.{{/multipleSubjects}}{{^multipleSubjects}}3. Choose the best pose or angle from the provided main photos as a base for the new image, but you can subtly adjust it to better fit the new style.{{/multipleSubjects}}`;
+
+// Shared by every built-in template so the sliders, user text, variations and the output ratio always reach the model
+const COMMON_SECTIONS = `
+
+Balance between style and likeness (0 = minimal, 100 = maximal): style intensity {{styleStrength}}, identity preservation {{identityFidelity}}.{{#userInstructions}}
+
+Additionally, follow these user-provided instructions carefully: {{userInstructions}}{{/userInstructions}}{{#variation}}
+
+Creative direction for this specific image (make it distinct from other shots of the same set): {{variation}}{{/variation}}{{#aspectRatio}}
+
+Compose the image for a {{aspectRatio}} frame, keeping the person and important details well inside it.{{/aspectRatio}}`;
+
+export const DEFAULT_TEMPLATE_ID = 'balanced';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    {
+        id: DEFAULT_TEMPLATE_ID,
+        name: 'Balanced',
+        builtIn: true,
+        body: `You are provided with several photos of the same person to understand their appearance from multiple angles. You are also provided with several "vibe" inspiration images.
+Your task is to create a new, photorealistic image of the person from the main photos, but imbued with the aesthetic, color palette, lighting, composition, and overall vibe from the inspiration images.
+
+Key instructions:
+${IDENTITY_LINE}
+2. Blend the style of the inspiration photos with the person. {{styleGuidance}}
+${REFERENCE_LINE}
+4. The final output must be only the image.${COMMON_SECTIONS}`,
+    },
+    {
+        id: 'faithful-portrait',
+        name: 'Faithful portrait',
+        builtIn: true,
+        body: `You are provided with {{subjectCount}} photo(s) of the same person and {{vibeCount}} "vibe" inspiration image(s).
+Your task is to create a photorealistic portrait of the person that looks exactly like them, borrowing only the lighting, color grading and mood of the inspiration images.
+
+Key instructions:
+${IDENTITY_LINE} Keep their face shape, skin texture, hairstyle, expression and body proportions true to the main photos.
+2. Apply the inspiration style at about {{styleStrength}} strength, limited to lighting, color and atmosphere.
+${REFERENCE_LINE}
+4. The final output must be only the image.${COMMON_SECTIONS}`,
+    },
+    {
+        id: 'heavy-stylization',
+        name: 'Heavy stylization',
+        builtIn: true,
+        body: `You are provided with {{subjectCount}} photo(s) of the same person and {{vibeCount}} "vibe" inspiration image(s).
+Your task is to reimagine the person boldly in the world of the inspiration images. Adopt their medium, art style, palette, wardrobe, setting and composition wholeheartedly; the result does not need to be photorealistic if the inspiration images aren't.
+
+Key instructions:
+${IDENTITY_LINE}
+2. Push the inspiration style hard. {{styleGuidance}}
+3. Feel free to change the pose, framing and outfit to suit the style.
+4. The final output must be only the image.${COMMON_SECTIONS}`,
+    },
+    {
+        id: 'background-swap',
+        name: 'Background swap only',
+        builtIn: true,
+        body: `You are provided with {{subjectCount}} photo(s) of the same person and {{vibeCount}} "vibe" inspiration image(s).
+Your task is to keep the person from the first main photo exactly as they are (pose, expression, clothing and framing) and replace only the background with a setting that matches the inspiration images.
+
+Key instructions:
+${IDENTITY_LINE}
+2. Do not change the person at all. Only relight them as needed so they sit naturally in the new environment.
+3. Match the new background's location, time of day and atmosphere to the inspiration images.
+4. The final output must be only the image.${COMMON_SECTIONS}`,
+    },
+];
+
+function isSet(value: PromptContext[PromptPlaceholder]): boolean {
+    return typeof value === 'string' ? value.trim() !== '' : !!value;
+}
+
+function fillTemplate(body: string, context: PromptContext): string {
+    const withSections = body.replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (match, kind: string, name: string, content: string) => {
+        if (!PLACEHOLDER_NAMES.has(name)) return match;
+        const show = isSet(context[name as PromptPlaceholder]) === (kind === '#');
+        return show ? fillTemplate(content, context) : '';
+    });
+    return withSections.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+        PLACEHOLDER_NAMES.has(name) ? String(context[name as PromptPlaceholder]).trim() : match
+    );
+}
+
+/**
+ * Fills in a template. Sections are resolved first, including placeholders inside them,
+ * then plain placeholders are replaced. Unknown placeholders are left untouched.
+ * @param body The template text.
+ * @param context The values to fill in.
+ * @returns The prompt to send to the model.
+ */
+export function renderPromptTemplate(body: string, context: PromptContext): string {
+    return fillTemplate(body, context).trim();
+}
+
+/**
+ * Lists placeholders in a template that the app doesn't know, usually typos.
+ */
+export function findUnknownPlaceholders(body: string): string[] {
+    const names = Array.from(body.matchAll(/\{\{[#^/]?(\w+)\}\}/g), match => match[1]);
+    return Array.from(new Set(names.filter(name => !PLACEHOLDER_NAMES.has(name))));
+}
+
+/**
+ * Finds a template by id among the built-in and custom templates, falling back to the default.
+ */
+export function resolvePromptTemplate(id: string | undefined, customTemplates: PromptTemplate[]): PromptTemplate {
+    return [...BUILT_IN_TEMPLATES, ...customTemplates].find(template => template.id === id) ?? BUILT_IN_TEMPLATES[0];
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Computes a 32-bit FNV-1a hash over a sequence of numbers. Long sequences are sampled so
+ * hashing stays cheap.
+ * @param length How many values the sequence has.
+ * @param valueAt Reads the value at an index.
+ */
+function fnv1a(length: number, valueAt: (index: number) => number): number {
+    const step = length > 100_000 ? Math.floor(length / 50_000) : 1;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < length; i += step) {
+        hash ^= valueAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= length;
+    return hash >>> 0;
+}
+
+/**
+ * Computes a 32-bit FNV-1a hash of a string.
+ * Very long strings (e.g. base64 image data) are sampled so hashing stays cheap.
+ * @param input The string to hash.
+ * @returns An unsigned 32-bit integer.
+ */
+export function hashString(input: string): number {
+    return fnv1a(input.length, i => input.charCodeAt(i));
+}
+
+/**
+ * Computes a 32-bit FNV-1a hash of binary data, sampled like `hashString` when it's large.
+ * @param bytes The data to hash, e.g. an encoded image.
+ * @returns An unsigned 32-bit integer.
+ */
+export function hashBytes(bytes: Uint8Array): number {
+    return fnv1a(bytes.length, i => bytes[i]);
+}
+
+/**
+ * Creates a deterministic pseudo-random number generator (mulberry32).
+ * @param seed Any 32-bit integer seed.
+ * @returns A function returning numbers in the range [0, 1).
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { PromptTemplate } from '../types';
+
+const CONCURRENCY_KEY = 'perfect-shot:max-concurrent-requests';
+const PROMPT_TEMPLATES_KEY = 'perfect-shot:prompt-templates';
+const PROMPT_TEMPLATE_ID_KEY = 'perfect-shot:prompt-template-id';
+const AUTO_RETRY_THRESHOLD_KEY = 'perfect-shot:auto-retry-threshold';
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 8;
+
+/** Results scoring below this overall match are generated again; 0 turns auto-retry off. Off unless the user opts in, since every retry is a paid request. */
+export const DEFAULT_AUTO_RETRY_THRESHOLD = 0;
+/** Extra attempts per slot when results keep scoring below the threshold. */
+export const MAX_AUTO_RETRIES = 2;
+
+/**
+ * Reads the user's cap on parallel generation requests.
+ * @returns The stored value clamped to 1..MAX_CONCURRENCY, or the default.
+ */
+export function getStoredConcurrency(): number {
+    try {
+        const stored = Number(window.localStorage.getItem(CONCURRENCY_KEY));
+        return stored >= 1 ? Math.min(MAX_CONCURRENCY, Math.floor(stored)) : DEFAULT_CONCURRENCY;
+    } catch {
+        return DEFAULT_CONCURRENCY;
+    }
+}
+
+export function setStoredConcurrency(concurrency: number) {
+    window.localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+}
+
+/**
+ * Reads the user's own prompt templates. Built-in templates aren't stored.
+ * @returns The stored templates, or an empty list if none are stored or the value is unreadable.
+ */
+export function getStoredPromptTemplates(): PromptTemplate[] {
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(PROMPT_TEMPLATES_KEY) ?? '[]');
+        return Array.isArray(stored)
+            ? stored.filter((template): template is PromptTemplate =>
+                typeof template?.id === 'string' && typeof template.name === 'string' && typeof template.body === 'string')
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+export function setStoredPromptTemplates(templates: PromptTemplate[]) {
+    window.localStorage.setItem(PROMPT_TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+export function getStoredPromptTemplateId(): string | null {
+    try {
+        return window.localStorage.getItem(PROMPT_TEMPLATE_ID_KEY);
+    } catch {
+        return null;
+    }
+}
+
+export function setStoredPromptTemplateId(id: string) {
+    window.localStorage.setItem(PROMPT_TEMPLATE_ID_KEY, id);
+}
+
+/**
+ * Reads the match score below which a result is automatically generated again.
+ * @returns The stored value clamped to 0..100, or the default.
+ */
+export function getStoredAutoRetryThreshold(): number {
+    try {
+        const stored = window.localStorage.getItem(AUTO_RETRY_THRESHOLD_KEY);
+        const value = Number(stored);
+        return stored !== null && Number.isFinite(value) ? Math.min(100, Math.max(0, Math.round(value))) : DEFAULT_AUTO_RETRY_THRESHOLD;
+    } catch {
+        return DEFAULT_AUTO_RETRY_THRESHOLD;
+    }
+}
+
+export function setStoredAutoRetryThreshold(threshold: number) {
+    window.localStorage.setItem(AUTO_RETRY_THRESHOLD_KEY, String(threshold));
+}
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { detectFocusArea } from './autoCrop';
+import { decodeImage, imageSize, releaseImage, type DecodedImage } from './canvas';
+import { getImageBlob } from './imageStore';
+import type { ImageId, MatchScore } from '../types';
+
+/**
+ * The compact description of an image that scores are computed from.
+ */
+interface ImageSignature {
+    /** Gradient orientation histogram of the face (or focus area): its shape and features. */
+    shape: number[];
+    /** Color histogram of the face (or focus area): mostly skin tone and hair. */
+    tone: number[];
+    /** Hue, saturation and brightness histogram of the whole image: its palette and mood. */
+    palette: number[];
+}
+
+const SHAPE_SIZE = 32;
+const SHAPE_CELL = 8;
+const ORIENTATION_BINS = 8;
+const TONE_LEVELS = 4;
+const HUE_BINS = 12;
+const SAT_BINS = 3;
+const VALUE_BINS = 3;
+const PALETTE_SIZE = 64;
+
+// How much each part counts. Identity dominates; a result that nails the vibe but loses the person is a miss.
+const IDENTITY_WEIGHT = 0.7;
+const SHAPE_WEIGHT = 0.7;
+
+// Raw similarities of unrelated images rarely fall below these floors, so they map to a score of 0
+const IDENTITY_FLOOR = 0.55;
+const STYLE_FLOOR = 0.2;
+
+function drawRegion(image: DecodedImage, x: number, y: number, width: number, height: number, size: number): Uint8ClampedArray {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('No 2d context');
+    ctx.drawImage(image, x, y, width, height, 0, 0, size, size);
+    return ctx.getImageData(0, 0, size, size).data;
+}
+
+function normalize(values: number[], norm: 'sum' | 'length'): number[] {
+    const total = norm === 'sum'
+        ? values.reduce((sum, value) => sum + value, 0)
+        : Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+    return total > 0 ? values.map(value => value / total) : values;
+}
+
+function shapeHistogram(pixels: Uint8ClampedArray): number[] {
+    const gray = new Float32Array(SHAPE_SIZE * SHAPE_SIZE);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+    }
+
+    const cellsPerSide = SHAPE_SIZE / SHAPE_CELL;
+    const histogram = new Array(cellsPerSide * cellsPerSide * ORIENTATION_BINS).fill(0);
+    for (let y = 1; y < SHAPE_SIZE - 1; y++) {
+        for (let x = 1; x < SHAPE_SIZE - 1; x++) {
+            const dx = gray[y * SHAPE_SIZE + x + 1] - gray[y * SHAPE_SIZE + x - 1];
+            const dy = gray[(y + 1) * SHAPE_SIZE + x] - gray[(y - 1) * SHAPE_SIZE + x];
+            // Unsigned orientation, so light-on-dark and dark-on-light edges match
+            const angle = (Math.atan2(dy, dx) + Math.PI) % Math.PI;
+            const bin = Math.min(ORIENTATION_BINS - 1, Math.floor((angle / Math.PI) * ORIENTATION_BINS));
+            const cell = Math.floor(y / SHAPE_CELL) * cellsPerSide + Math.floor(x / SHAPE_CELL);
+            histogram[cell * ORIENTATION_BINS + bin] += Math.hypot(dx, dy);
+        }
+    }
+    return normalize(histogram, 'length');
+}
+
+function toneHistogram(pixels: Uint8ClampedArray): number[] {
+    const histogram = new Array(TONE_LEVELS ** 3).fill(0);
+    const step = 256 / TONE_LEVELS;
+    for (let i = 0; i < pixels.length; i += 4) {
+        const r = Math.floor(pixels[i] / step);
+        const g = Math.floor(pixels[i + 1] / step);
+        const b = Math.floor(pixels[i + 2] / step);
+        histogram[(r * TONE_LEVELS + g) * TONE_LEVELS + b]++;
+    }
+    return normalize(histogram, 'sum');
+}
+
+function paletteHistogram(pixels: Uint8ClampedArray): number[] {
+    const histogram = new Array(HUE_BINS * SAT_BINS * VALUE_BINS).fill(0);
+    for (let i = 0; i < pixels.length; i += 4) {
+        const r = pixels[i] / 255;
+        const g = pixels[i + 1] / 255;
+        const b = pixels[i + 2] / 255;
+        const max = Math.max(r, g, b);
+        const delta = max - Math.min(r, g, b);
+        let hue = 0;
+        if (delta > 0) {
+            hue = max === r ? ((g - b) / delta + 6) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+        }
+        const saturation = max > 0 ? delta / max : 0;
+        const h = Math.min(HUE_BINS - 1, Math.floor((hue / 6) * HUE_BINS));
+        const s = Math.min(SAT_BINS - 1, Math.floor(saturation * SAT_BINS));
+        const v = Math.min(VALUE_BINS - 1, Math.floor(max * VALUE_BINS));
+        histogram[(h * SAT_BINS + s) * VALUE_BINS + v]++;
+    }
+    return normalize(histogram, 'sum');
+}
+
+async function computeSignature(id: ImageId): Promise<ImageSignature> {
+    const image = await decodeImage(getImageBlob(id));
+    try {
+        const focus = await detectFocusArea(image);
+        const { width, height } = imageSize(image);
+
+        // A square around the focus, padded so the whole head is included when a face was found
+        const padding = focus.source === 'face' ? 1.4 : 1;
+        const side = Math.min(width, height, Math.max(focus.width, focus.height) * padding);
+        const x = Math.min(width - side, Math.max(0, focus.x + focus.width / 2 - side / 2));
+        const y = Math.min(height - side, Math.max(0, focus.y + focus.height / 2 - side / 2));
+        const focusPixels = drawRegion(image, x, y, side, side, SHAPE_SIZE);
+
+        return {
+            shape: shapeHistogram(focusPixels),
+            tone: toneHistogram(focusPixels),
+            palette: paletteHistogram(drawRegion(image, 0, 0, width, height, PALETTE_SIZE)),
+        };
+    } finally {
+        releaseImage(image);
+    }
+}
+
+function cosine(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+function intersection(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + Math.min(value, b[i]), 0);
+}
+
+function toPercent(value: number, floor: number): number {
+    return Math.round(Math.min(1, Math.max(0, (value - floor) / (1 - floor))) * 100);
+}
+
+/**
+ * Creates a scorer for results of one generation. Reference signatures are computed once,
+ * on first use, and shared by every result scored afterwards.
+ *
+ * Scores come from simple local image statistics, not a face recognition model. They are
+ * good at spotting results that drift far from the references and should be read as a ranking,
+ * not an exact measure.
+ * @param references Photos of the person.
+ * @param inspirations The vibe photos.
+ * @returns A function that scores a result against them.
+ */
+export function createMatchScorer(references: ImageId[], inspirations: ImageId[]): (result: ImageId) => Promise<MatchScore> {
+    let signatures: Promise<{ subjects: ImageSignature[]; stylePalette: number[] }> | null = null;
+
+    const loadReferences = async () => {
+        const [subjects, vibes] = await Promise.all([
+            Promise.all(references.map(computeSignature)),
+            Promise.all(inspirations.map(computeSignature)),
+        ]);
+        // The vibe is the set as a whole, so results are compared with its average palette
+        const stylePalette = vibes.length > 0
+            ? vibes[0].palette.map((_, bin) => vibes.reduce((sum, signature) => sum + signature.palette[bin], 0) / vibes.length)
+            : [];
+        return { subjects, stylePalette };
+    };
+
+    return async (resultId: ImageId) => {
+        signatures ??= loadReferences();
+        const [{ subjects, stylePalette }, result] = await Promise.all([signatures, computeSignature(resultId)]);
+
+        // The best-matching reference counts, since the result may follow any of their angles
+        const identityRaw = Math.max(0, ...subjects.map(subject =>
+            SHAPE_WEIGHT * cosine(result.shape, subject.shape) + (1 - SHAPE_WEIGHT) * intersection(result.tone, subject.tone)
+        ));
+        const identity = toPercent(identityRaw, IDENTITY_FLOOR);
+        const style = stylePalette.length > 0 ? toPercent(intersection(result.palette, stylePalette), STYLE_FLOOR) : 0;
+
+        return {
+            identity,
+            style,
+            overall: Math.round(IDENTITY_WEIGHT * identity + (1 - IDENTITY_WEIGHT) * style),
+        };
+    };
+}
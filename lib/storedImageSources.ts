@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useState } from 'react';
+import type { StoredImage } from '../types';
+
+/**
+ * Gives saved images displayable sources for as long as a component shows them. Blobs get
+ * object URLs that are revoked when the list changes or the component unmounts; data URLs
+ * saved by older versions are used as they are.
+ * @param images Every saved image the component may display. Pass a memoized array.
+ * @returns A lookup from a saved image to its source, undefined until the URLs are created.
+ */
+export function useStoredImageSources(images: StoredImage[]): (image: StoredImage) => string | undefined {
+    const [urls, setUrls] = useState<Map<Blob, string>>(() => new Map());
+
+    useEffect(() => {
+        const created = new Map<Blob, string>();
+        images.forEach(image => {
+            if (typeof image !== 'string' && !created.has(image)) {
+                created.set(image, URL.createObjectURL(image));
+            }
+        });
+        setUrls(created);
+        return () => created.forEach(url => URL.revokeObjectURL(url));
+    }, [images]);
+
+    return image => typeof image === 'string' ? image : urls.get(image);
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { StyleControls } from '../types';
+
+/** The middle of both scales: a balanced blend that keeps the person clearly recognizable. */
+export const DEFAULT_STYLE_CONTROLS: StyleControls = {
+    styleStrength: 50,
+    identityFidelity: 50,
+};
+
+export const STYLE_CONTROL_SLIDERS: { key: keyof StyleControls; label: string; minLabel: string; maxLabel: string }[] = [
+    { key: 'styleStrength', label: 'Style intensity', minLabel: 'Light touch', maxLabel: 'Go wild' },
+    { key: 'identityFidelity', label: 'Identity preservation', minLabel: 'Loose resemblance', maxLabel: 'Exact likeness' },
+];
+
+// Each slider is split into five bands, checked in order against their upper bound
+const STYLE_GUIDANCE: { upTo: number; text: string }[] = [
+    { upTo: 20, text: "Apply only a light touch of the inspiration style: borrow its color grading and lighting, and keep the setting, clothing and composition close to the main photos." },
+    { upTo: 40, text: "Apply the inspiration style subtly: adopt its lighting, palette and mood, with only modest changes to setting and wardrobe." },
+    { upTo: 60, text: "Balance the two evenly: adopt the aesthetic, color palette, lighting and composition of the inspiration images while keeping the result natural." },
+    { upTo: 80, text: "Apply the inspiration style strongly: adopt its setting, wardrobe, palette, lighting and composition." },
+    { upTo: 100, text: "Go all in on the inspiration style: transform the setting, wardrobe and medium to match it, even if the result is no longer photorealistic." },
+];
+
+const IDENTITY_GUIDANCE: { upTo: number; text: string }[] = [
+    { upTo: 20, text: "A loose resemblance is enough; their features can be stylized or exaggerated to suit the style." },
+    { upTo: 40, text: "Keep them recognizable, but noticeable stylization of their features is fine." },
+    { upTo: 60, text: "They must be clearly recognizable." },
+    { upTo: 80, text: "Closely preserve their facial features, skin tone and hairstyle; only lighting and styling may change." },
+    { upTo: 100, text: "Preserve their identity exactly: face shape, features, skin texture, hairstyle and proportions must match the main photos. Do not beautify or idealize them." },
+];
+
+function clampPercent(value: number): number {
+    return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+function guidanceFor(bands: { upTo: number; text: string }[], value: number): string {
+    const clamped = clampPercent(value);
+    return (bands.find(band => clamped <= band.upTo) ?? bands[bands.length - 1]).text;
+}
+
+/**
+ * The prompt guidance for a style strength, from a light touch (0) to a full transformation (100).
+ */
+export function describeStyleStrength(value: number): string {
+    return guidanceFor(STYLE_GUIDANCE, value);
+}
+
+/**
+ * The prompt guidance for an identity fidelity, from a loose resemblance (0) to an exact likeness (100).
+ */
+export function describeIdentityFidelity(value: number): string {
+    return guidanceFor(IDENTITY_GUIDANCE, value);
+}
+
+/**
+ * A short label for captions and exports, e.g. "Style 70 · Identity 40".
+ */
+export function formatStyleControls(controls: StyleControls): string {
+    return `Style ${clampPercent(controls.styleStrength)} · Identity ${clampPercent(controls.identityFidelity)}`;
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createSeededRandom } from './random';
+import type { SlotVariation, VariationMode } from '../types';
+
+interface VariationOption {
+    label: string;
+    direction: string;
+}
+
+const POSES: VariationOption[] = [
+    { label: 'Candid', direction: 'a natural, candid pose as if caught mid-moment' },
+    { label: 'Over the shoulder', direction: 'looking back over the shoulder toward the camera' },
+    { label: 'Walking', direction: 'walking toward the camera with relaxed movement' },
+    { label: 'Seated', direction: 'seated comfortably, leaning slightly forward' },
+    { label: 'Leaning', direction: 'leaning casually against something in the scene' },
+    { label: 'Looking away', direction: 'gazing off into the distance, away from the camera' },
+    { label: 'Hands in pockets', direction: 'standing confidently with hands in pockets' },
+    { label: 'Laughing', direction: 'laughing genuinely with a relaxed posture' },
+];
+
+const FRAMINGS: VariationOption[] = [
+    { label: 'Close-up', direction: 'a tight close-up portrait framing the face' },
+    { label: 'Head & shoulders', direction: 'a classic head-and-shoulders framing' },
+    { label: 'Half body', direction: 'a waist-up, half-body framing' },
+    { label: 'Full body', direction: 'a full-body shot showing the whole figure in the scene' },
+    { label: 'Wide', direction: 'a wide environmental shot where the scene plays a large role' },
+    { label: 'Low angle', direction: 'a dramatic low camera angle looking up' },
+    { label: 'High angle', direction: 'a high camera angle looking down' },
+    { label: 'Off-center', direction: 'an off-center, rule-of-thirds composition' },
+];
+
+const TIMES_OF_DAY: VariationOption[] = [
+    { label: 'Sunrise', direction: 'soft, cool sunrise light' },
+    { label: 'Morning', direction: 'bright, clean morning light' },
+    { label: 'Midday', direction: 'crisp midday sun with defined shadows' },
+    { label: 'Golden hour', direction: 'warm, low golden-hour sunlight' },
+    { label: 'Blue hour', direction: 'moody blue-hour twilight' },
+    { label: 'Night', direction: 'nighttime with artificial and ambient light sources' },
+    { label: 'Overcast', direction: 'diffuse, overcast daylight' },
+    { label: 'Neon night', direction: 'a night scene lit by colorful neon signs' },
+];
+
+export const VARIATION_MODES: { value: VariationMode; label: string }[] = [
+    { value: 'none', label: 'Same direction for every image' },
+    { value: 'pose', label: 'Vary the pose' },
+    { value: 'framing', label: 'Vary the framing' },
+    { value: 'time-of-day', label: 'Vary the time of day' },
+    { value: 'mixed', label: 'Mix pose, framing and time of day' },
+    { value: 'custom', label: 'My own list of variations' },
+];
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+function describe(kind: string, option: VariationOption): string {
+    return `${kind}: ${option.direction}.`;
+}
+
+/**
+ * Parses a user-supplied list of variations, one per line.
+ */
+export function parseCustomVariations(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Assigns a distinct creative direction and seed to each generation slot.
+ * @param mode Which dimension to vary.
+ * @param count The number of slots.
+ * @param customVariations The user's own variations, used when mode is 'custom'.
+ * @param seed Seed for picking directions; the same seed yields the same assignment.
+ * @returns One variation per slot, or `undefined` entries when mode is 'none'.
+ */
+export function buildSlotVariations(
+    mode: VariationMode,
+    count: number,
+    customVariations: string[],
+    seed: number
+): (SlotVariation | undefined)[] {
+    const random = createSeededRandom(seed);
+    const slotSeed = () => Math.floor(random() * 2 ** 31);
+
+    if (mode === 'none') {
+        return Array(count).fill(undefined);
+    }
+
+    if (mode === 'custom') {
+        if (customVariations.length === 0) {
+            return Array(count).fill(undefined);
+        }
+        return Array.from({ length: count }, (_, index) => {
+            const text = customVariations[index % customVariations.length];
+            return { label: text, direction: text, seed: slotSeed() };
+        });
+    }
+
+    const poses = shuffle(POSES, random);
+    const framings = shuffle(FRAMINGS, random);
+    const times = shuffle(TIMES_OF_DAY, random);
+
+    return Array.from({ length: count }, (_, index) => {
+        const pose = poses[index % poses.length];
+        const framing = framings[index % framings.length];
+        const time = times[index % times.length];
+
+        switch (mode) {
+            case 'pose':
+                return { label: pose.label, direction: describe('Pose', pose), seed: slotSeed() };
+            case 'framing':
+                return { label: framing.label, direction: describe('Framing', framing), seed: slotSeed() };
+            case 'time-of-day':
+                return { label: time.label, direction: describe('Lighting and time of day', time), seed: slotSeed() };
+            case 'mixed':
+                return {
+                    label: `${pose.label} · ${framing.label} · ${time.label}`,
+                    direction: [describe('Pose', pose), describe('Framing', framing), describe('Lighting and time of day', time)].join(' '),
+                    seed: slotSeed(),
+                };
+        }
+    });
+}
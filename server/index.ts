@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { RateLimiter } from './rateLimiter';
+import { ApiError } from '@google/genai';
+import { GeminiUpstream, InvalidImageError, SafetyBlockedError, StubUpstream, TextResponseError } from './upstream';
+import type { Upstream, UpstreamRequest } from './upstream';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES ?? 40 * 1024 * 1024);
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+const MAX_MAIN_IMAGES = 10;
+const MAX_INSPIRATION_IMAGES = 5;
+const MAX_PROMPT_LENGTH = 8000;
+const MAX_UPSTREAM_ATTEMPTS = 3;
+
+class HttpError extends Error {
+    constructor(public readonly status: number, message: string, public readonly headers: Record<string, string> = {}) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+function createUpstream(): Upstream {
+    if (process.env.PROXY_UPSTREAM === 'stub') {
+        return new StubUpstream();
+    }
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new Error("GEMINI_API_KEY is not set. Set it, or run with PROXY_UPSTREAM=stub.");
+    }
+    return new GeminiUpstream(apiKey);
+}
+
+function getClientId(req: IncomingMessage): string {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    if (process.env.TRUST_PROXY === '1' && typeof forwardedFor === 'string') {
+        return forwardedFor.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Reads the request body. An oversized body is rejected with a 413, and the rest of it is
+ * discarded rather than the socket destroyed, so the response still reaches the client.
+ */
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const tooLarge = () => new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes.`, { Connection: 'close' });
+        if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+            req.resume();
+            reject(tooLarge());
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        const onData = (chunk: Buffer) => {
+            received += chunk.length;
+            if (received > MAX_BODY_BYTES) {
+                req.off('data', onData);
+                req.resume();
+                reject(tooLarge());
+                return;
+            }
+            chunks.push(chunk);
+        };
+        req.on('data', onData);
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * The decoded size of a base64 data URL's payload, in bytes, without decoding it.
+ */
+function decodedByteSize(dataUrl: string): number {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+function validateImages(value: unknown, field: string, max: number): string[] {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new HttpError(400, `'${field}' must be an array of image data URLs.`);
+    }
+    if (value.length > max) {
+        throw new HttpError(413, `'${field}' accepts at most ${max} images.`);
+    }
+    for (const dataUrl of value as string[]) {
+        if (!dataUrl.startsWith('data:image/')) {
+            throw new HttpError(400, `'${field}' contains an entry that is not an image data URL.`);
+        }
+        if (decodedByteSize(dataUrl) > MAX_IMAGE_BYTES) {
+            throw new HttpError(413, `An image in '${field}' exceeds ${MAX_IMAGE_BYTES} bytes.`);
+        }
+    }
+    return value as string[];
+}
+
+function parseGenerateRequest(body: string): UpstreamRequest {
+    let payload: Record<string, unknown>;
+    try {
+        payload = JSON.parse(body);
+    } catch {
+        throw new HttpError(400, "Request body must be valid JSON.");
+    }
+
+    const [sourceImage] = payload.sourceImage === undefined ? [] : validateImages([payload.sourceImage], 'sourceImage', 1);
+    const [maskImage] = payload.maskImage === undefined ? [] : validateImages([payload.maskImage], 'maskImage', 1);
+    if (maskImage && !sourceImage) {
+        throw new HttpError(400, "'maskImage' requires a 'sourceImage' to apply to.");
+    }
+    const mainImages = validateImages(payload.mainImages, 'mainImages', MAX_MAIN_IMAGES);
+    const inspirationImages = validateImages(payload.inspirationImages, 'inspirationImages', MAX_INSPIRATION_IMAGES);
+    if (mainImages.length === 0) {
+        throw new HttpError(400, "At least one main image is required.");
+    }
+    if (typeof payload.prompt !== 'string' || payload.prompt.length > MAX_PROMPT_LENGTH) {
+        throw new HttpError(400, `'prompt' must be a string of at most ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    if (payload.seed !== undefined && !Number.isInteger(payload.seed)) {
+        throw new HttpError(400, "'seed' must be an integer.");
+    }
+    return { sourceImage, maskImage, mainImages, inspirationImages, prompt: payload.prompt, seed: payload.seed as number | undefined };
+}
+
+/**
+ * Turns an upstream rate limit into a 429 for the client, passing on Gemini's retry delay
+ * hint (e.g. `"retryDelay": "23s"`) as Retry-After when it sent one.
+ */
+function toRateLimitError(error: unknown, errorMessage: string): HttpError | null {
+    const isRateLimited = (error instanceof ApiError && error.status === 429)
+        || errorMessage.includes('RESOURCE_EXHAUSTED') || errorMessage.includes('"code":429');
+    if (!isRateLimited) return null;
+    const retryDelay = errorMessage.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return new HttpError(429, errorMessage, retryDelay ? { 'Retry-After': String(Math.ceil(Number(retryDelay[1]))) } : {});
+}
+
+/**
+ * Calls the upstream, retrying transient failures with exponential backoff. Rate limits are
+ * not retried here: the client's scheduler already backs off and retries them, and retrying
+ * in both places would multiply the paid upstream calls.
+ */
+async function generateWithRetry(upstream: Upstream, request: UpstreamRequest): Promise<string> {
+    const initialDelay = 1000;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await upstream.generate(request);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+            const rateLimitError = toRateLimitError(error, errorMessage);
+            if (rateLimitError) {
+                console.error("Upstream rate limit reached:", errorMessage);
+                throw rateLimitError;
+            }
+            const isRetriableError = !(error instanceof TextResponseError) && !(error instanceof SafetyBlockedError) && !(error instanceof InvalidImageError)
+                && (errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL') || errorMessage.includes('503'));
+
+            console.error(`Upstream error (Attempt ${attempt}/${MAX_UPSTREAM_ATTEMPTS}):`, errorMessage);
+            if (!isRetriableError || attempt >= MAX_UPSTREAM_ATTEMPTS) {
+                throw error;
+            }
+            await new Promise(resolve => setTimeout(resolve, initialDelay * Math.pow(2, attempt - 1)));
+        }
+    }
+}
+
+/**
+ * Maps an HTTP status to the client's error taxonomy (see services/errors.ts).
+ */
+function errorKindForStatus(status: number): string {
+    if (status === 429) return 'rate-limited';
+    if (status >= 400 && status < 500) return 'invalid-input';
+    return 'unknown';
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+const upstream = createUpstream();
+const rateLimiter = new RateLimiter(
+    Number(process.env.RATE_LIMIT_BURST ?? 10),
+    Number(process.env.RATE_LIMIT_PER_MINUTE ?? 10),
+);
+setInterval(() => rateLimiter.prune(), 60_000).unref();
+
+const server = createServer(async (req, res) => {
+    try {
+        if (req.url === '/api/health' && req.method === 'GET') {
+            sendJson(res, 200, { ok: true, upstream: upstream.name });
+            return;
+        }
+        if (req.url !== '/api/generate') {
+            throw new HttpError(404, "Not found.");
+        }
+        if (req.method !== 'POST') {
+            throw new HttpError(405, "Method not allowed.", { Allow: 'POST' });
+        }
+
+        const limit = rateLimiter.consume(getClientId(req));
+        if (!limit.allowed) {
+            throw new HttpError(429, "Too many requests. Please slow down.", { 'Retry-After': String(limit.retryAfterSeconds) });
+        }
+
+        const request = parseGenerateRequest(await readBody(req));
+        const image = await generateWithRetry(upstream, request);
+        sendJson(res, 200, { image });
+    } catch (error) {
+        if (error instanceof HttpError) {
+            sendJson(res, error.status, { error: error.message, kind: errorKindForStatus(error.status) }, error.headers);
+        } else if (error instanceof TextResponseError) {
+            sendJson(res, 422, { error: error.message, kind: 'text-response' });
+        } else if (error instanceof InvalidImageError) {
+            sendJson(res, 400, { error: error.message, kind: 'invalid-input' });
+        } else if (error instanceof SafetyBlockedError) {
+            sendJson(res, 422, { error: error.message, kind: 'safety-blocked' });
+        } else if (error instanceof ApiError && error.status === 400) {
+            sendJson(res, error.status, { error: error.message, kind: errorKindForStatus(error.status) });
+        } else {
+            console.error("Unhandled error while generating:", error);
+            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+            sendJson(res, 502, { error: `Upstream request failed: ${errorMessage}`, kind: 'unknown' });
+        }
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Perfect Shot proxy listening on http://localhost:${PORT} (upstream: ${upstream.name})`);
+});
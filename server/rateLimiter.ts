@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** Seconds until the next request would be allowed (0 when allowed). */
+    retryAfterSeconds: number;
+}
+
+/**
+ * A per-client token bucket. Each client may burst up to `capacity` requests,
+ * refilling at `refillPerMinute` tokens per minute.
+ */
+export class RateLimiter {
+    private readonly buckets = new Map<string, Bucket>();
+
+    constructor(
+        private readonly capacity: number,
+        private readonly refillPerMinute: number,
+    ) {}
+
+    consume(clientId: string, now: number = Date.now()): RateLimitResult {
+        const refillPerMs = this.refillPerMinute / 60_000;
+        const bucket = this.buckets.get(clientId) ?? { tokens: this.capacity, updatedAt: now };
+
+        bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+        bucket.updatedAt = now;
+        this.buckets.set(clientId, bucket);
+
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return { allowed: true, retryAfterSeconds: 0 };
+        }
+        return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    }
+
+    /**
+     * Drops buckets that have fully refilled so the map doesn't grow without bound.
+     */
+    prune(now: number = Date.now()) {
+        const refillPerMs = this.refillPerMinute / 60_000;
+        for (const [clientId, bucket] of this.buckets) {
+            if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= this.capacity) {
+                this.buckets.delete(clientId);
+            }
+        }
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse, Part } from "@google/genai";
+import { MODEL_SUPPORTED_MIME_TYPES, parseDataUrl } from "../lib/dataUrl";
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+export interface UpstreamRequest {
+    /** An existing image to edit, sent ahead of the references. */
+    sourceImage?: string;
+    /** Marks the part of `sourceImage` to edit, in white on black. */
+    maskImage?: string;
+    mainImages: string[];
+    inspirationImages: string[];
+    prompt: string;
+    seed?: number;
+}
+
+/**
+ * Thrown when the upstream model answers without an image. Not worth retrying.
+ */
+export class TextResponseError extends Error {
+    constructor(public readonly textResponse: string) {
+        super(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+        this.name = 'TextResponseError';
+    }
+}
+
+/**
+ * Thrown when the prompt or result was blocked by safety filters. Not worth retrying.
+ */
+export class SafetyBlockedError extends Error {
+    constructor(reason: string) {
+        super(`The request was blocked by safety filters (${reason}).`);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'BLOCKLIST', 'SPII'];
+
+/**
+ * The model backend the proxy forwards to.
+ */
+export interface Upstream {
+    readonly name: string;
+    /**
+     * @returns A data URL of the generated image.
+     */
+    generate(request: UpstreamRequest): Promise<string>;
+}
+
+/**
+ * Thrown for images the model can't accept. Reported to the client as invalid input.
+ */
+export class InvalidImageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidImageError';
+    }
+}
+
+function dataUrlToGeminiPart(dataUrl: string): Part {
+    const parsed = parseDataUrl(dataUrl);
+    if (!parsed || !parsed.mimeType.startsWith('image/')) {
+        throw new InvalidImageError("Invalid image data URL format. Expected 'data:image/...;base64,...'");
+    }
+    if (!MODEL_SUPPORTED_MIME_TYPES.includes(parsed.mimeType)) {
+        throw new InvalidImageError(`Images of type ${parsed.mimeType} are not supported by the model.`);
+    }
+    return { inlineData: { mimeType: parsed.mimeType, data: parsed.base64Data } };
+}
+
+function processGeminiResponse(response: GenerateContentResponse): string {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyBlockedError(blockReason);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockedError(finishReason);
+    }
+    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+    if (imagePart?.inlineData) {
+        const { mimeType, data } = imagePart.inlineData;
+        return `data:${mimeType};base64,${data}`;
+    }
+    throw new TextResponseError(response.text ?? '');
+}
+
+/**
+ * Forwards requests to the Gemini API using the server-side key.
+ */
+export class GeminiUpstream implements Upstream {
+    readonly name = 'gemini';
+    private readonly ai: GoogleGenAI;
+
+    constructor(apiKey: string) {
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    async generate({ sourceImage, maskImage, mainImages, inspirationImages, prompt, seed }: UpstreamRequest): Promise<string> {
+        const parts: Part[] = [
+            ...(sourceImage ? [dataUrlToGeminiPart(sourceImage)] : []),
+            ...(maskImage ? [dataUrlToGeminiPart(maskImage)] : []),
+            ...mainImages.map(dataUrlToGeminiPart),
+            ...inspirationImages.map(dataUrlToGeminiPart),
+            { text: prompt },
+        ];
+        const response = await this.ai.models.generateContent({
+            model: GEMINI_IMAGE_MODEL,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                seed,
+            },
+        });
+        return processGeminiResponse(response);
+    }
+}
+
+/**
+ * A stand-in upstream for local development: echoes the image being edited, or the first main image,
+ * back after a short delay.
+ * No key or network access is required.
+ */
+export class StubUpstream implements Upstream {
+    readonly name = 'stub';
+
+    constructor(private readonly latencyMs: number = 500) {}
+
+    async generate({ sourceImage, mainImages }: UpstreamRequest): Promise<string> {
+        await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+        return sourceImage ?? mainImages[0];
+    }
+}
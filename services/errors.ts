@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RetryableError, isAbortError } from "./requestScheduler";
+import type { GenerationErrorInfo, GenerationErrorKind } from "../types";
+
+/**
+ * Base class for every error `generateVibeBasedImage` and friends can reject with.
+ * `kind` drives the message and suggested action shown in the UI.
+ */
+export abstract class GenerationError extends Error {
+    abstract readonly kind: GenerationErrorKind;
+
+    /**
+     * A plain, serializable form suitable for React state and IndexedDB.
+     */
+    toInfo(): GenerationErrorInfo {
+        return { kind: this.kind, message: this.message };
+    }
+}
+
+/** The prompt or the result was blocked by the model's safety filters. */
+export class SafetyBlockedError extends GenerationError {
+    readonly kind = 'safety-blocked';
+    name = 'SafetyBlockedError';
+}
+
+/** The model answered with text instead of an image. */
+export class TextResponseError extends GenerationError {
+    readonly kind = 'text-response';
+    name = 'TextResponseError';
+}
+
+/** Rate limited or out of quota, even after backing off. */
+export class QuotaExceededError extends GenerationError {
+    readonly kind = 'rate-limited';
+    name = 'QuotaExceededError';
+}
+
+/** An image or the prompt was rejected as malformed or too large. */
+export class InvalidInputError extends GenerationError {
+    readonly kind = 'invalid-input';
+    name = 'InvalidInputError';
+}
+
+/** The API or the generation server couldn't be reached. */
+export class NetworkError extends GenerationError {
+    readonly kind = 'network';
+    name = 'NetworkError';
+}
+
+/** The user cancelled the request. */
+export class CancelledError extends GenerationError {
+    readonly kind = 'cancelled';
+    name = 'CancelledError';
+}
+
+export class UnknownGenerationError extends GenerationError {
+    readonly kind = 'unknown';
+    name = 'UnknownGenerationError';
+}
+
+const ERROR_CLASSES: Record<GenerationErrorKind, new (message: string) => GenerationError> = {
+    'safety-blocked': SafetyBlockedError,
+    'text-response': TextResponseError,
+    'rate-limited': QuotaExceededError,
+    'invalid-input': InvalidInputError,
+    'network': NetworkError,
+    'cancelled': CancelledError,
+    'unknown': UnknownGenerationError,
+};
+
+/**
+ * Recreates a typed error from its kind, e.g. one reported by the generation server.
+ */
+export function createGenerationError(kind: GenerationErrorKind, message: string): GenerationError {
+    return new (ERROR_CLASSES[kind] ?? UnknownGenerationError)(message);
+}
+
+/**
+ * Classifies any thrown value into a GenerationError.
+ */
+export function toGenerationError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) {
+        return error;
+    }
+    if (isAbortError(error)) {
+        return new CancelledError("Generation was cancelled.");
+    }
+
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    if (error instanceof RetryableError) {
+        // The scheduler gave up retrying
+        if (error.kind === 'rate-limited') {
+            return new QuotaExceededError(`Rate limit or quota exceeded. Details: ${message}`);
+        }
+        if (error.kind === 'network') {
+            return new NetworkError(message);
+        }
+    }
+    if (error instanceof TypeError && /fetch|network/i.test(message)) {
+        return new NetworkError(message);
+    }
+    return new UnknownGenerationError(`The AI model failed to generate an image. Details: ${message}`);
+}
+
+/**
+ * Normalizes a stored error, including plain strings saved before errors were typed.
+ */
+export function toGenerationErrorInfo(error: GenerationErrorInfo | string | undefined): GenerationErrorInfo | undefined {
+    if (error === undefined) return undefined;
+    return typeof error === 'string' ? { kind: 'unknown', message: error } : error;
+}
@@ -2,138 +2,233 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// FIX: Import `Modality` to specify response modalities for the image editing model.
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { GenerateContentResponse, Part } from "@google/genai";
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-// --- Helper Functions ---
+import { getImageProvider, MissingApiKeyError } from "./providers";
+import type { ImageGenerationRequest, ProviderImage } from "./providers";
+import { RequestScheduler } from "./requestScheduler";
+import { toGenerationError } from "./errors";
+import { getStoredConcurrency } from "../lib/settingsStorage";
+import { describeAspectRatio, describeOutputFormat } from "../lib/outputFormat";
+import { compositeMaskedEdit, conformToOutputFormat, toModelMask } from "../lib/imageProcessing";
+import { DEFAULT_TEMPLATE_ID, renderPromptTemplate, resolvePromptTemplate } from "../lib/promptTemplates";
+import { DEFAULT_STYLE_CONTROLS, describeIdentityFidelity, describeStyleStrength } from "../lib/styleControls";
+import type { GenerationProgress, OutputSettings, PromptTemplate, SlotVariation, StyleControls } from "../types";
+
+export {
+    getImageProvider,
+    setImageProvider,
+    resetImageProvider,
+    createImageProvider,
+    isApiKeyMissing,
+    MissingApiKeyError,
+    GeminiImageProvider,
+} from "./providers";
+export type { ImageGenerationProvider, ProviderId } from "./providers";
+export { isAbortError } from "./requestScheduler";
+export {
+    GenerationError,
+    SafetyBlockedError,
+    TextResponseError,
+    QuotaExceededError,
+    InvalidInputError,
+    NetworkError,
+    CancelledError,
+    UnknownGenerationError,
+    toGenerationError,
+} from "./errors";
 
 /**
- * Converts a data URL string into a Part object for the Gemini API.
- * @param dataUrl The data URL (e.g., 'data:image/png;base64,...').
- * @returns A Part object.
- * @throws An error if the data URL format is invalid.
+ * Every model request goes through this queue so parallel slots share one concurrency cap.
  */
-function dataUrlToGeminiPart(dataUrl: string): Part {
-    const match = dataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-    if (!match) {
-        throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
-    }
-    const [, mimeType, base64Data] = match;
-    return {
-        inlineData: { mimeType, data: base64Data },
-    };
-}
-
+const scheduler = new RequestScheduler({ concurrency: getStoredConcurrency() });
 
 /**
- * Processes the Gemini API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
- * @returns A data URL string for the generated image.
+ * Changes how many generation requests may run at once.
  */
-function processGeminiResponse(response: GenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+export function setGenerationConcurrency(concurrency: number) {
+    scheduler.setConcurrency(concurrency);
+}
 
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
-    }
+export interface RequestOptions {
+    /** Cancels the request, whether it is still queued or already running. */
+    signal?: AbortSignal;
+    /** The exact ratio and size to deliver the result in; the model's output is used as-is when omitted. */
+    outputSettings?: OutputSettings;
+    /** Notes from the subject's profile that help the model keep their identity. */
+    subjectNotes?: string;
+    /** Called as the request moves through its lifecycle, starting with `queued`. */
+    onProgress?: (progress: GenerationProgress) => void;
+}
 
-    const textResponse = response.text;
-    console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+export interface GenerationOptions extends RequestOptions {
+    /** A per-slot creative direction and seed. */
+    variation?: SlotVariation;
+    /** A sampling seed that overrides the variation's, e.g. to get a different result on a retry. */
+    seed?: number;
+    /** The prompt template to fill in; the built-in default when omitted. */
+    template?: PromptTemplate;
+    /** How strongly to apply the vibe and preserve the person; the middle of both scales when omitted. */
+    styleControls?: StyleControls;
 }
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism.
- * @param parts An array of Part objects for the request payload.
- * @returns The GenerateContentResponse from the API.
+ * Formats profile notes as an addition to the identity instruction, or nothing when there are none.
  */
-async function callGeminiWithRetry(parts: Part[]): Promise<GenerateContentResponse> {
-    const maxRetries = 3;
-    const initialDelay = 1000;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            // FIX: Added `config` with `responseModalities` as required by the `gemini-2.5-flash-image-preview` model.
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
-        } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-            // Retry on common transient errors
-            const isRetriableError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL') || errorMessage.includes('503');
-
-            if (isRetriableError && attempt < maxRetries) {
-                const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Retriable error detected. Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                continue;
-            }
-            throw error; // Re-throw if not a retriable error or if max retries are reached.
-        }
-    }
-    // This should be unreachable due to the loop and throw logic above.
-    throw new Error("Gemini API call failed after all retries.");
+function describeSubjectNotes(notes: string | undefined): string {
+    return notes?.trim() ? ` Details about this person to preserve: ${notes.trim()}` : '';
 }
 
+/**
+ * Builds the text prompt for a generation request by filling in the chosen template.
+ * Exposed so the template editor can preview exactly what will be sent.
+ * @param subjectCount How many photos of the person are attached.
+ * @param vibeCount How many inspiration photos are attached.
+ * @param userPrompt Optional user-provided instructions.
+ * @param options The same options passed to `generateVibeBasedImage`.
+ * @returns The final prompt.
+ */
+export function buildVibePrompt(subjectCount: number, vibeCount: number, userPrompt: string, options: GenerationOptions = {}): string {
+    const template = options.template ?? resolvePromptTemplate(DEFAULT_TEMPLATE_ID, []);
+    const { styleStrength, identityFidelity } = options.styleControls ?? DEFAULT_STYLE_CONTROLS;
+    return renderPromptTemplate(template.body, {
+        subjectCount,
+        vibeCount,
+        multipleSubjects: subjectCount > 1,
+        userInstructions: userPrompt,
+        subjectNotes: options.subjectNotes ?? '',
+        variation: options.variation?.direction ?? '',
+        aspectRatio: options.outputSettings ? describeAspectRatio(options.outputSettings) : '',
+        styleStrength: `${styleStrength}/100`,
+        identityFidelity: `${identityFidelity}/100`,
+        styleGuidance: describeStyleStrength(styleStrength),
+        identityGuidance: describeIdentityFidelity(identityFidelity),
+    });
+}
 
 /**
  * Generates an image based on a main image and several "vibe" inspiration images.
- * @param mainImageDataUrls An array of data URL strings of the main subject images.
- * @param inspirationDataUrls An array of data URL strings for the vibe/inspiration images.
+ * @param mainImages The main subject images. The first one is the primary reference.
+ * @param inspirationImages The vibe/inspiration images.
  * @param userPrompt Optional user-provided instructions.
- * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * @param options Optional per-slot settings such as a creative variation or prompt template.
+ * @returns A promise that resolves to the generated image.
  */
 export async function generateVibeBasedImage(
-    mainImageDataUrls: string[], 
-    inspirationDataUrls: string[],
-    userPrompt: string = ''
-): Promise<string> {
-  
-    let textPrompt = `You are provided with several photos of the same person to understand their appearance from multiple angles. You are also provided with several "vibe" inspiration images.
-Your task is to create a new, photorealistic image of the person from the main photos, but imbued with the aesthetic, color palette, lighting, composition, and overall vibe from the inspiration images.
+    mainImages: Blob[],
+    inspirationImages: Blob[],
+    userPrompt: string = '',
+    options: GenerationOptions = {}
+): Promise<Blob> {
+    const textPrompt = buildVibePrompt(mainImages.length, inspirationImages.length, userPrompt, options);
+
+    const images: ProviderImage[] = [
+        ...mainImages.map(blob => ({ blob, role: 'subject' as const })),
+        ...inspirationImages.map(blob => ({ blob, role: 'style' as const })),
+    ];
+    console.log(`Attempting generation with ${mainImages.length} main images and ${inspirationImages.length} inspiration images...`);
+    return dispatchToProvider({ images, prompt: textPrompt, seed: options.seed ?? options.variation?.seed }, options);
+}
+
+/**
+ * Edits a previously generated image according to a follow-up instruction.
+ * @param source The generated image to refine.
+ * @param instruction What to change, e.g. "make the background warmer".
+ * @param mainImages The original subject photos, so the person stays recognizable.
+ * @param options Optional request settings such as an abort signal.
+ * @returns A promise that resolves to the refined image.
+ */
+export async function refineGeneratedImage(
+    source: Blob,
+    instruction: string,
+    mainImages: Blob[],
+    options: RequestOptions = {}
+): Promise<Blob> {
+    let textPrompt = `The first image is a photo you previously created. The remaining images are reference photos of the person in it.
+Edit the first image according to this instruction: ${instruction.trim()}
 
 Key instructions:
-1. Accurately represent the person from the main photos. They must be clearly recognizable.
-2. Perfectly blend the style of the inspiration photos with the person.
-3. Choose the best pose or angle from the provided main photos as a base for the new image, but you can subtly adjust it to better fit the new style.
-4. The final output must be only the image.`;
+1. Change only what the instruction asks for. Keep the composition, lighting, style and everything else as they are.
+2. The person must remain clearly recognizable as the person in the reference photos.${describeSubjectNotes(options.subjectNotes)}
+3. The final output must be only the edited image.`;
 
-    if (userPrompt && userPrompt.trim() !== '') {
-        textPrompt += `\n\nAdditionally, follow these user-provided instructions carefully: ${userPrompt.trim()}`;
+    if (options.outputSettings) {
+        textPrompt += `\n\n${describeOutputFormat(options.outputSettings)}`;
     }
 
-    try {
-        const mainImageParts = mainImageDataUrls.map(dataUrlToGeminiPart);
-        const inspirationImageParts = inspirationDataUrls.map(dataUrlToGeminiPart);
-        const textPart = { text: textPrompt };
+    const images: ProviderImage[] = [
+        { blob: source, role: 'source' },
+        ...mainImages.map(blob => ({ blob, role: 'subject' as const })),
+    ];
+    console.log(`Attempting refinement with instruction: ${instruction.trim()}`);
+    return dispatchToProvider({ images, prompt: textPrompt }, options);
+}
 
-        const allParts = [...mainImageParts, ...inspirationImageParts, textPart];
+/**
+ * Edits only the painted region of a generated image. The model sees the whole image and
+ * a mask, and its answer is composited back so pixels outside the mask are unchanged.
+ * @param source The generated image to edit.
+ * @param mask The painted mask, the same size as the source and opaque where it should change.
+ * @param instruction What to change in the region, e.g. "fix the hand".
+ * @param mainImages The original subject photos, so the person stays recognizable.
+ * @param options Optional request settings such as an abort signal. Output settings are ignored;
+ * the result always keeps the source's size.
+ * @returns A promise that resolves to a PNG of the edited image.
+ */
+export async function inpaintGeneratedImage(
+    source: Blob,
+    mask: Blob,
+    instruction: string,
+    mainImages: Blob[],
+    options: RequestOptions = {}
+): Promise<Blob> {
+    const textPrompt = `The first image is a photo you previously created. The second image is a mask of the same size: white marks the region to edit, black marks everything that must stay as it is. The remaining images are reference photos of the person in it.
+Edit the white region of the first image according to this instruction: ${instruction.trim()}
 
-        console.log(`Attempting generation with ${mainImageParts.length} main images and ${inspirationImageParts.length} inspiration images...`);
-        const response = await callGeminiWithRetry(allParts);
-        return processGeminiResponse(response);
+Key instructions:
+1. Change only the masked region. Keep the framing, size and everything outside the mask identical.
+2. Blend the edit seamlessly with its surroundings, matching their lighting, color and grain.
+3. If the person appears in the region, they must remain clearly recognizable as the person in the reference photos.${describeSubjectNotes(options.subjectNotes)}
+4. The final output must be only the edited image, without the mask.`;
+
+    const images: ProviderImage[] = [
+        { blob: source, role: 'source' },
+        { blob: await toModelMask(mask), role: 'mask' },
+        ...mainImages.map(blob => ({ blob, role: 'subject' as const })),
+    ];
+    console.log(`Attempting masked edit with instruction: ${instruction.trim()}`);
+    const edited = await dispatchToProvider({ images, prompt: textPrompt }, { signal: options.signal, onProgress: options.onProgress });
+    options.onProgress?.({ stage: 'processing' });
+    return compositeMaskedEdit(source, edited, mask);
+}
+
+/**
+ * Queues a request for the active provider, then fits the result to the requested output format.
+ * @throws A MissingApiKeyError, or a GenerationError subclass describing what went wrong
+ * (cancellation surfaces as a CancelledError).
+ */
+async function dispatchToProvider(request: Omit<ImageGenerationRequest, 'signal' | 'onStage'>, { signal, outputSettings, onProgress }: RequestOptions): Promise<Blob> {
+    // Once a request has been retried, every later event carries the attempt number
+    let retry: Pick<GenerationProgress, 'attempt' | 'maxAttempts'> = {};
+    try {
+        const provider = getImageProvider();
+        onProgress?.({ stage: 'queued' });
+        const image = await scheduler.schedule(
+            taskSignal => provider.generateImage({ ...request, signal: taskSignal, onStage: stage => onProgress?.({ stage, ...retry }) }),
+            {
+                signal,
+                onRetry: (attempt, maxAttempts) => {
+                    retry = { attempt, maxAttempts };
+                    onProgress?.({ stage: 'retrying', ...retry });
+                },
+            }
+        );
+        if (!outputSettings) return image;
+        onProgress?.({ stage: 'processing', ...retry });
+        return await conformToOutputFormat(image, outputSettings);
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        console.error("An unrecoverable error occurred during image generation.", error);
-        
-        if (errorMessage.includes("The AI model responded with text")) {
-             throw new Error(`The model couldn't generate an image with this vibe. It might be too complex.`);
+        if (error instanceof MissingApiKeyError) {
+            throw error;
         }
-        throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+        console.error("An unrecoverable error occurred during image generation.", error);
+        throw toGenerationError(error);
     }
-}
\ No newline at end of file
+}
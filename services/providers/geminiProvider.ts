@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// FIX: Import `Modality` to specify response modalities for the image editing model.
+import { ApiError, GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse, Part } from "@google/genai";
+import { RetryableError } from "../requestScheduler";
+import { InvalidInputError, SafetyBlockedError, TextResponseError } from "../errors";
+import { MODEL_SUPPORTED_MIME_TYPES, blobToDataUrl, dataUrlToBlob, parseDataUrl } from "../../lib/dataUrl";
+import type { ImageGenerationProvider, ImageGenerationRequest } from "./types";
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'BLOCKLIST', 'SPII'];
+
+/**
+ * Converts an image into a base64-encoded Part object for the Gemini API.
+ * @param blob The encoded image.
+ * @returns A Part object.
+ * @throws An InvalidInputError if the blob isn't an image or the format isn't supported by the model.
+ */
+async function blobToGeminiPart(blob: Blob): Promise<Part> {
+    if (!blob.type.startsWith('image/')) {
+        throw new InvalidInputError(`Expected an image, got ${blob.type || 'data of an unknown type'}.`);
+    }
+    if (!MODEL_SUPPORTED_MIME_TYPES.includes(blob.type)) {
+        throw new InvalidInputError(`Images of type ${blob.type} are not supported by the model.`);
+    }
+    const parsed = parseDataUrl(await blobToDataUrl(blob));
+    if (!parsed) {
+        throw new InvalidInputError("The image could not be read.");
+    }
+    return {
+        inlineData: { mimeType: blob.type, data: parsed.base64Data },
+    };
+}
+
+/**
+ * Extracts the retry delay Gemini includes in rate-limit errors (e.g. `"retryDelay": "23s"`).
+ * @returns The delay in milliseconds, or undefined if the error carries no hint.
+ */
+function parseRetryDelay(errorMessage: string): number | undefined {
+    const match = errorMessage.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * Processes the Gemini API response, extracting the image or throwing an error if none is found.
+ * @param response The response from the generateContent call.
+ * @returns The generated image.
+ * @throws A SafetyBlockedError if the prompt or result was blocked, or a TextResponseError if no image came back.
+ */
+function processGeminiResponse(response: GenerateContentResponse): Blob {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyBlockedError(`The request was blocked by safety filters (${blockReason}).`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockedError(`The result was blocked by safety filters (${finishReason}).`);
+    }
+
+    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        return dataUrlToBlob(`data:${mimeType};base64,${data}`);
+    }
+
+    const textResponse = response.text;
+    console.error("API did not return an image. Response:", textResponse);
+    throw new TextResponseError(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+}
+
+/**
+ * Image generation backed by the Gemini API.
+ */
+export class GeminiImageProvider implements ImageGenerationProvider {
+    readonly id = 'gemini';
+    readonly label = 'Gemini 2.5 Flash Image Preview';
+
+    private readonly ai: GoogleGenAI;
+
+    constructor(apiKey: string) {
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    /**
+     * Checks that an API key is accepted by the Gemini API by fetching the image model's metadata.
+     * @param apiKey The key to check.
+     * @throws The underlying API error if the key is rejected.
+     */
+    static async validateApiKey(apiKey: string): Promise<void> {
+        const ai = new GoogleGenAI({ apiKey });
+        await ai.models.get({ model: GEMINI_IMAGE_MODEL });
+    }
+
+    async generateImage({ images, prompt, seed, signal, onStage }: ImageGenerationRequest): Promise<Blob> {
+        onStage?.('uploading');
+        const imageParts = await Promise.all(images.map(image => blobToGeminiPart(image.blob)));
+        const parts: Part[] = [...imageParts, { text: prompt }];
+        onStage?.('waiting');
+        const response = await this.callGemini(parts, seed, signal);
+        return processGeminiResponse(response);
+    }
+
+    /**
+     * Calls the Gemini API once. Transient failures are rethrown as RetryableErrors
+     * so the request scheduler can back off and retry them.
+     * @param parts An array of Part objects for the request payload.
+     * @param seed Optional sampling seed.
+     * @param signal Optional signal to abort the request.
+     * @returns The GenerateContentResponse from the API.
+     */
+    private async callGemini(parts: Part[], seed?: number, signal?: AbortSignal): Promise<GenerateContentResponse> {
+        try {
+            // FIX: Added `config` with `responseModalities` as required by the `gemini-2.5-flash-image-preview` model.
+            return await this.ai.models.generateContent({
+                model: GEMINI_IMAGE_MODEL,
+                contents: { parts },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    seed,
+                    abortSignal: signal,
+                },
+            });
+        } catch (error) {
+            console.error("Error calling Gemini API:", error);
+            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+            const status = error instanceof ApiError ? error.status : undefined;
+            // Retry on rate limits and common transient errors
+            const isRateLimited = status === 429 || errorMessage.includes('RESOURCE_EXHAUSTED');
+            const isServerError = status === 500 || status === 503
+                || errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL') || errorMessage.includes('503');
+
+            if (isRateLimited || isServerError) {
+                throw new RetryableError(errorMessage, isRateLimited ? 'rate-limited' : 'unknown', status, parseRetryDelay(errorMessage));
+            }
+            if (status === 400) {
+                throw new InvalidInputError(errorMessage);
+            }
+            throw error;
+        }
+    }
+}
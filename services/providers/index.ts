@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getStoredApiKey } from "../../lib/apiKeyStorage";
+import { GeminiImageProvider } from "./geminiProvider";
+import { MockImageProvider } from "./mockProvider";
+import { ProxyImageProvider } from "./proxyProvider";
+import type { ImageGenerationProvider } from "./types";
+
+export type { ImageGenerationProvider, ImageGenerationRequest, ProviderImage, ProviderImageRole } from "./types";
+export { GeminiImageProvider } from "./geminiProvider";
+export { MockImageProvider } from "./mockProvider";
+export { ProxyImageProvider } from "./proxyProvider";
+
+/**
+ * - `proxy` (default): calls the Perfect Shot server, which keeps the Gemini key server-side.
+ * - `gemini`: calls Gemini directly from the browser with a key the user enters in Settings.
+ * - `mock`: deterministic offline results.
+ */
+export type ProviderId = 'proxy' | 'gemini' | 'mock';
+
+/**
+ * Thrown when the Gemini provider is needed but no API key has been configured.
+ * The UI treats this as a recoverable state and asks the user for a key.
+ */
+export class MissingApiKeyError extends Error {
+    constructor() {
+        super("No Gemini API key is configured. Add your key in Settings to start generating.");
+        this.name = 'MissingApiKeyError';
+    }
+}
+
+let activeProvider: ImageGenerationProvider | null = null;
+
+/**
+ * Determines which provider to use when none has been set explicitly.
+ * A `?provider=mock` query parameter takes precedence over the `IMAGE_PROVIDER` build variable.
+ */
+function resolveDefaultProviderId(): ProviderId {
+    const fromQuery = typeof window !== 'undefined'
+        ? new URLSearchParams(window.location.search).get('provider')
+        : null;
+    const requested = fromQuery ?? process.env.IMAGE_PROVIDER;
+    return requested === 'mock' || requested === 'gemini' ? requested : 'proxy';
+}
+
+/**
+ * Resolves the user's Gemini API key for direct browser calls.
+ */
+function resolveApiKey(): string | null {
+    return getStoredApiKey() || null;
+}
+
+/**
+ * Creates a provider instance by id.
+ * @throws A MissingApiKeyError if the Gemini provider is requested without an API key.
+ */
+export function createImageProvider(id: ProviderId): ImageGenerationProvider {
+    if (id === 'mock') {
+        return new MockImageProvider();
+    }
+    if (id === 'proxy') {
+        return new ProxyImageProvider();
+    }
+    const apiKey = resolveApiKey();
+    if (!apiKey) {
+        throw new MissingApiKeyError();
+    }
+    return new GeminiImageProvider(apiKey);
+}
+
+/**
+ * Whether generating right now would fail for lack of an API key.
+ */
+export function isApiKeyMissing(): boolean {
+    return !activeProvider && resolveDefaultProviderId() === 'gemini' && !resolveApiKey();
+}
+
+/**
+ * Returns the active provider, creating the default one on first use.
+ */
+export function getImageProvider(): ImageGenerationProvider {
+    if (!activeProvider) {
+        activeProvider = createImageProvider(resolveDefaultProviderId());
+    }
+    return activeProvider;
+}
+
+/**
+ * Drops the active provider so the next request recreates it, e.g. after the API key changes.
+ */
+export function resetImageProvider() {
+    activeProvider = null;
+}
+
+/**
+ * Replaces the active provider, e.g. to inject a mock in tests.
+ */
+export function setImageProvider(provider: ImageGenerationProvider) {
+    activeProvider = provider;
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { canvasToBlob, decodeImage, imageSize, releaseImage, type AnyCanvasContext, type DecodedImage } from "../../lib/canvas";
+import { averageImageColor } from "../../lib/imageProcessing";
+import { createSeededRandom, hashBytes, hashString } from "../../lib/random";
+import { abortableDelay } from "../requestScheduler";
+import type { ImageGenerationProvider, ImageGenerationRequest } from "./types";
+
+const OUTPUT_WIDTH = 768;
+const OUTPUT_HEIGHT = 1024;
+
+/**
+ * Draws an image so it covers the whole target rectangle, cropping the overflow.
+ */
+function drawCover(ctx: AnyCanvasContext, img: DecodedImage, width: number, height: number, zoom: number) {
+    const source = imageSize(img);
+    const scale = Math.max(width / source.width, height / source.height) * zoom;
+    const drawWidth = source.width * scale;
+    const drawHeight = source.height * scale;
+    ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+/**
+ * A deterministic, offline provider that synthesizes results with canvas.
+ * The same request always yields the same image, which makes it suitable for tests and demos.
+ */
+export class MockImageProvider implements ImageGenerationProvider {
+    readonly id = 'mock';
+    readonly label = 'Local mock (offline)';
+
+    constructor(private readonly latencyMs: number = 800) {}
+
+    async generateImage({ images, prompt, seed: requestSeed, signal, onStage }: ImageGenerationRequest): Promise<Blob> {
+        signal?.throwIfAborted();
+        onStage?.('uploading');
+        const imageHashes = await Promise.all(images.map(async image => hashBytes(new Uint8Array(await image.blob.arrayBuffer()))));
+        const seed = hashString([prompt, requestSeed ?? '', ...imageHashes].join('|'));
+        const random = createSeededRandom(seed);
+
+        const subjectImage = images.find(image => image.role === 'source') ?? images.find(image => image.role === 'subject');
+        const styleImages = images.filter(image => image.role === 'style');
+
+        const canvas = document.createElement('canvas');
+        canvas.width = OUTPUT_WIDTH;
+        canvas.height = OUTPUT_HEIGHT;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get 2D canvas context');
+        }
+
+        // 1. Base layer: the image being edited or the subject, or a neutral backdrop when there is neither
+        ctx.fillStyle = '#777';
+        ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        if (subjectImage) {
+            const subject = await decodeImage(subjectImage.blob);
+            drawCover(ctx, subject, OUTPUT_WIDTH, OUTPUT_HEIGHT, 1 + random() * 0.2);
+            releaseImage(subject);
+        }
+
+        // 2. "Vibe" layer: tint with the palette of the style images
+        const styleColors = await Promise.all(styleImages.map(image => averageImageColor(image.blob)));
+        const gradient = ctx.createLinearGradient(0, 0, OUTPUT_WIDTH * random(), OUTPUT_HEIGHT);
+        (styleColors.length > 0 ? styleColors : [[255, 160, 80] as [number, number, number]]).forEach(([r, g, b], index, colors) => {
+            gradient.addColorStop(colors.length === 1 ? 0 : index / (colors.length - 1), `rgb(${r}, ${g}, ${b})`);
+        });
+        ctx.save();
+        ctx.globalCompositeOperation = 'soft-light';
+        ctx.globalAlpha = 0.85;
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        ctx.restore();
+
+        // 3. Vignette
+        const vignette = ctx.createRadialGradient(
+            OUTPUT_WIDTH / 2, OUTPUT_HEIGHT / 2, OUTPUT_WIDTH * 0.3,
+            OUTPUT_WIDTH / 2, OUTPUT_HEIGHT / 2, OUTPUT_HEIGHT * 0.75
+        );
+        vignette.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        vignette.addColorStop(1, 'rgba(0, 0, 0, 0.55)');
+        ctx.fillStyle = vignette;
+        ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+
+        // 4. Label so mock output is never mistaken for a real generation
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+        ctx.font = `bold 28px 'Poppins', sans-serif`;
+        ctx.textAlign = 'left';
+        ctx.fillText(`MOCK #${seed.toString(16).padStart(8, '0')}`, 24, OUTPUT_HEIGHT - 32);
+
+        onStage?.('waiting');
+        await abortableDelay(this.latencyMs, signal);
+        return canvasToBlob(canvas, 'image/jpeg', 0.9);
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RetryableError } from "../requestScheduler";
+import { InvalidInputError, createGenerationError } from "../errors";
+import { blobToDataUrl, dataUrlToBlob } from "../../lib/dataUrl";
+import type { GenerationErrorKind } from "../../types";
+import type { ImageGenerationProvider, ImageGenerationRequest } from "./types";
+
+const DEFAULT_ENDPOINT = '/api/generate';
+const RETRIABLE_STATUSES = [429, 502, 503];
+
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Image generation through the local backend proxy, which holds the Gemini key server-side.
+ */
+export class ProxyImageProvider implements ImageGenerationProvider {
+    readonly id = 'proxy';
+    readonly label = 'Perfect Shot server';
+
+    constructor(private readonly endpoint: string = DEFAULT_ENDPOINT) {}
+
+    async generateImage({ images, prompt, seed, signal, onStage }: ImageGenerationRequest): Promise<Blob> {
+        onStage?.('uploading');
+        // The server takes JSON, so this is where images are base64-encoded
+        const encoded = await Promise.all(images.map(async image => ({ role: image.role, dataUrl: await blobToDataUrl(image.blob) })));
+        const body = JSON.stringify({
+            sourceImage: encoded.find(image => image.role === 'source')?.dataUrl,
+            maskImage: encoded.find(image => image.role === 'mask')?.dataUrl,
+            mainImages: encoded.filter(image => image.role === 'subject').map(image => image.dataUrl),
+            inspirationImages: encoded.filter(image => image.role === 'style').map(image => image.dataUrl),
+            prompt,
+            seed,
+        });
+
+        let response: Response;
+        try {
+            // fetch doesn't report upload progress, so this starts as soon as the request is handed over
+            onStage?.('waiting');
+            response = await fetch(this.endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body,
+                signal,
+            });
+        } catch (error) {
+            // Network failures surface as TypeErrors from fetch
+            if (error instanceof TypeError) {
+                throw new RetryableError(`Could not reach the generation server: ${error.message}`, 'network');
+            }
+            throw error;
+        }
+
+        const payload = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            const message = typeof payload.error === 'string' ? payload.error : `Proxy responded with status ${response.status}`;
+            console.error(`Generation proxy responded with ${response.status}:`, message);
+            // Sending the same body again can't help, so this is never retried
+            if (response.status === 413) {
+                throw new InvalidInputError(`The photos are too large for the generation server. Use fewer or smaller photos. (${message})`);
+            }
+            if (RETRIABLE_STATUSES.includes(response.status)) {
+                throw new RetryableError(message, response.status === 429 ? 'rate-limited' : 'unknown', response.status, parseRetryAfter(response.headers.get('Retry-After')));
+            }
+            const kind: GenerationErrorKind = typeof payload.kind === 'string'
+                ? payload.kind
+                : response.status >= 400 && response.status < 500 ? 'invalid-input' : 'unknown';
+            throw createGenerationError(kind, message);
+        }
+        if (typeof payload.image !== 'string') {
+            throw new Error("Proxy response did not include an image.");
+        }
+        return dataUrlToBlob(payload.image);
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * How an image in a generation request should be used by the model:
+ * - `source`: an existing image to edit.
+ * - `mask`: marks the part of the source to edit, in white on black.
+ * - `subject`: a reference photo of the person.
+ * - `style`: a "vibe" inspiration image.
+ */
+export type ProviderImageRole = 'source' | 'mask' | 'subject' | 'style';
+
+export interface ProviderImage {
+    /** The encoded image. Providers convert it to whatever their API needs when building the request. */
+    blob: Blob;
+    role: ProviderImageRole;
+}
+
+export interface ImageGenerationRequest {
+    /** Images in the order they should be presented to the model. */
+    images: ProviderImage[];
+    /** The fully built text instructions. */
+    prompt: string;
+    /** Optional sampling seed for providers that support one. */
+    seed?: number;
+    /** Aborts the request when the user cancels. */
+    signal?: AbortSignal;
+    /** Told when the provider starts encoding and sending the images, and once it is waiting on the model. */
+    onStage?: (stage: 'uploading' | 'waiting') => void;
+}
+
+/**
+ * A backend capable of turning images plus instructions into a new image.
+ * `generateVibeBasedImage` dispatches every request through the active provider.
+ */
+export interface ImageGenerationProvider {
+    readonly id: string;
+    readonly label: string;
+    /**
+     * Generates a single image, making exactly one attempt. Transient failures should be
+     * thrown as `RetryableError`s; retries and concurrency are handled by the request scheduler.
+     * @returns A promise that resolves to the generated image.
+     */
+    generateImage(request: ImageGenerationRequest): Promise<Blob>;
+}
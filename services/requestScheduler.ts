@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationErrorKind } from '../types';
+
+/**
+ * Thrown by providers for failures that are worth retrying (rate limits, transient server errors).
+ */
+export class RetryableError extends Error {
+    constructor(
+        message: string,
+        /** What the failure means if every retry fails too. */
+        public readonly kind: Extract<GenerationErrorKind, 'rate-limited' | 'network' | 'unknown'>,
+        /** HTTP status of the failure, if known. */
+        public readonly status?: number,
+        /** The server's retry-after hint, if it sent one. */
+        public readonly retryAfterMs?: number,
+    ) {
+        super(message);
+        this.name = 'RetryableError';
+    }
+}
+
+export interface SchedulerOptions {
+    /** Maximum number of tasks running at once. */
+    concurrency: number;
+    /** Total attempts per task, including the first. */
+    maxAttempts: number;
+    /** Delay before the first retry; doubled on each further attempt. */
+    initialDelayMs: number;
+    /** Upper bound for any single backoff delay. */
+    maxDelayMs: number;
+}
+
+export interface ScheduleOptions {
+    /** Aborting removes a queued task, or cancels a running one, and rejects with an AbortError. */
+    signal?: AbortSignal;
+    /**
+     * Called when a transient failure is about to be retried, before the backoff delay.
+     * @param attempt The attempt that will follow the delay.
+     */
+    onRetry?: (attempt: number, maxAttempts: number, delayMs: number) => void;
+}
+
+interface QueuedTask {
+    start: () => void;
+    signal?: AbortSignal;
+}
+
+function createAbortError(): DOMException {
+    return new DOMException('The generation was cancelled.', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Waits for the given time, rejecting early with an AbortError if the signal fires.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(createAbortError());
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * A FIFO request queue with a concurrency cap and retry with exponential backoff.
+ * A retrying task keeps its slot, so a burst of rate-limited requests doesn't
+ * immediately hammer the API again with the tasks queued behind it.
+ */
+export class RequestScheduler {
+    private readonly queue: QueuedTask[] = [];
+    private running = 0;
+    private options: SchedulerOptions;
+
+    constructor(options: Partial<SchedulerOptions> = {}) {
+        this.options = {
+            concurrency: 2,
+            maxAttempts: 3,
+            initialDelayMs: 1000,
+            maxDelayMs: 60_000,
+            ...options,
+        };
+    }
+
+    get concurrency(): number {
+        return this.options.concurrency;
+    }
+
+    setConcurrency(concurrency: number) {
+        this.options = { ...this.options, concurrency: Math.max(1, Math.floor(concurrency)) };
+        this.drain();
+    }
+
+    /**
+     * Queues a task. The task receives a signal that fires if the caller aborts.
+     * @returns A promise for the task's result after any retries.
+     */
+    schedule<T>(task: (signal?: AbortSignal) => Promise<T>, { signal, onRetry }: ScheduleOptions = {}): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(createAbortError());
+                return;
+            }
+
+            const queued: QueuedTask = {
+                signal,
+                start: () => {
+                    signal?.removeEventListener('abort', onQueuedAbort);
+                    this.running++;
+                    this.runWithRetry(task, signal, onRetry)
+                        .then(resolve, reject)
+                        .finally(() => {
+                            this.running--;
+                            this.drain();
+                        });
+                },
+            };
+
+            const onQueuedAbort = () => {
+                const index = this.queue.indexOf(queued);
+                if (index !== -1) {
+                    this.queue.splice(index, 1);
+                    reject(createAbortError());
+                }
+            };
+            signal?.addEventListener('abort', onQueuedAbort, { once: true });
+
+            this.queue.push(queued);
+            this.drain();
+        });
+    }
+
+    private drain() {
+        while (this.running < this.options.concurrency && this.queue.length > 0) {
+            this.queue.shift()!.start();
+        }
+    }
+
+    private async runWithRetry<T>(task: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal, onRetry?: ScheduleOptions['onRetry']): Promise<T> {
+        const { maxAttempts, initialDelayMs, maxDelayMs } = this.options;
+
+        for (let attempt = 1; ; attempt++) {
+            if (signal?.aborted) {
+                throw createAbortError();
+            }
+            try {
+                return await task(signal);
+            } catch (error) {
+                if (signal?.aborted) {
+                    throw createAbortError();
+                }
+                if (!(error instanceof RetryableError) || attempt >= maxAttempts) {
+                    throw error;
+                }
+                const backoff = initialDelayMs * Math.pow(2, attempt - 1);
+                const delay = Math.min(maxDelayMs, Math.max(backoff, error.retryAfterMs ?? 0));
+                console.log(`Retriable error (status ${error.status ?? 'unknown'}, attempt ${attempt}/${maxAttempts}). Retrying in ${delay}ms...`);
+                onRetry?.(attempt + 1, maxAttempts, delay);
+                await abortableDelay(delay, signal);
+            }
+        }
+    }
+}
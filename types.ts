@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ImageStatus = 'pending' | 'done' | 'error';
+
+/**
+ * An image held in the image store. The ID is the image's object URL, so it can be used
+ * directly as an `<img>` source and stays the same for as long as the image is kept.
+ */
+export type ImageId = string;
+
+/**
+ * An image as saved in IndexedDB: a Blob, or a base64 data URL in records saved by older versions.
+ * Records that hold images take the image type as a parameter, `ImageId` in memory and
+ * `StoredImage` on disk.
+ */
+export type StoredImage = Blob | string;
+
+export type GenerationErrorKind =
+    | 'safety-blocked'
+    | 'text-response'
+    | 'rate-limited'
+    | 'invalid-input'
+    | 'network'
+    | 'cancelled'
+    | 'unknown';
+
+/**
+ * The serializable form of a generation error, kept on a result slot.
+ */
+export interface GenerationErrorInfo {
+    kind: GenerationErrorKind;
+    message: string;
+}
+
+/**
+ * Where a generation request is in its lifecycle:
+ * - `queued`: waiting for a free request slot.
+ * - `uploading`: encoding the images and sending them.
+ * - `waiting`: sent; the model is working on it.
+ * - `retrying`: backing off after a transient failure before the next attempt.
+ * - `processing`: fitting the result to the output format, compositing or scoring it.
+ */
+export type GenerationStage = 'queued' | 'uploading' | 'waiting' | 'retrying' | 'processing';
+
+/**
+ * A lifecycle event reported while a slot's request runs.
+ */
+export interface GenerationProgress {
+    stage: GenerationStage;
+    /** The attempt in progress, or about to start while retrying. Only set once a request has been retried. */
+    attempt?: number;
+    /** The most attempts the request will make. */
+    maxAttempts?: number;
+}
+
+export type VariationMode = 'none' | 'pose' | 'framing' | 'time-of-day' | 'mixed' | 'custom';
+
+/**
+ * The creative direction assigned to one generation slot.
+ */
+export interface SlotVariation {
+    /** Short text shown in the slot caption. */
+    label: string;
+    /** The instruction added to the prompt. */
+    direction: string;
+    /** Sampling seed, so regenerating the slot stays on the same direction. */
+    seed: number;
+}
+
+export type OutputAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type OutputSize = 'small' | 'medium' | 'large';
+
+/**
+ * How results are fitted to the target ratio: 'letterbox' pads, 'crop' trims the edges.
+ */
+export type OutputFit = 'letterbox' | 'crop';
+
+/**
+ * The shape and size every result is delivered in, regardless of what the model returns.
+ */
+export interface OutputSettings {
+    aspectRatio: OutputAspectRatio;
+    size: OutputSize;
+    fit: OutputFit;
+}
+
+/**
+ * How well a result matches its inputs, each 0-100: `identity` against the photos of the person,
+ * `style` against the vibe photos, and `overall` weighing the two.
+ */
+export interface MatchScore {
+    identity: number;
+    style: number;
+    overall: number;
+}
+
+/**
+ * One entry in a slot's version chain: the original result or a refinement of it.
+ */
+export interface ImageVersion<Image = ImageId> {
+    url: Image;
+    /** The follow-up instruction that produced this version; absent for the original. */
+    instruction?: string;
+    /** Set when the instruction was applied only to a painted region. */
+    masked?: boolean;
+    /** Absent when scoring failed or the version predates scoring. */
+    score?: MatchScore;
+    createdAt: number;
+}
+
+/**
+ * How far a request leans towards the vibe versus the person's likeness, each 0-100.
+ */
+export interface StyleControls {
+    styleStrength: number;
+    identityFidelity: number;
+}
+
+export interface GeneratedImage<Image = ImageId> {
+    status: ImageStatus;
+    /** The currently displayed version's image. */
+    url?: Image;
+    error?: GenerationErrorInfo;
+    variation?: SlotVariation;
+    versions?: ImageVersion<Image>[];
+    versionIndex?: number;
+    /** The sliders this slot was last generated with; refinements keep them. */
+    styleControls?: StyleControls;
+    /** The output format this slot was last generated at; refinements keep it. */
+    outputSettings?: OutputSettings;
+    /** Starred by the user; albums can be limited to favorites. */
+    favorite?: boolean;
+}
+
+export type AppState = 'idle' | 'photos-uploaded' | 'generating' | 'results-shown';
+
+/** The two upload lists: the user's own photos and the vibe photos. */
+export type UploadListId = 'main' | 'inspiration';
+
+/**
+ * A thumbnail's position in one of the upload lists.
+ */
+export interface ImageLocation {
+    list: UploadListId;
+    index: number;
+}
+
+/**
+ * A single press of "Generate": its inputs and every result slot.
+ */
+export interface GenerationRun<Image = ImageId> {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+    mainImages: Image[];
+    inspirationImages: Image[];
+    prompt: string;
+    subjectNotes?: string;
+    promptTemplateId?: string;
+    styleControls?: StyleControls;
+    count: number;
+    variationMode?: VariationMode;
+    outputSettings?: OutputSettings;
+    results: GeneratedImage<Image>[];
+}
+
+/**
+ * A named prompt with `{{placeholder}}` slots, filled in for every generation request.
+ */
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    body: string;
+    /** Built-in templates ship with the app and can't be edited, only duplicated. */
+    builtIn?: boolean;
+}
+
+/**
+ * A reusable look: a named set of inspiration images and the instructions that go with them.
+ */
+export interface VibePreset<Image = ImageId> {
+    id: string;
+    name: string;
+    inspirationImages: Image[];
+    prompt: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * A person the user generates for repeatedly: their cropped reference photos and notes
+ * that help the model keep their identity.
+ */
+export interface SubjectProfile<Image = ImageId> {
+    id: string;
+    name: string;
+    referenceImages: Image[];
+    /** Free-form description, e.g. "freckles, left-handed, always wears round glasses". */
+    notes: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * The working state of the app, persisted so a reload can pick up where the user left off.
+ */
+export interface SessionSnapshot<Image = ImageId> {
+    appState: AppState;
+    uploadedImages: Image[];
+    inspirationImages: Image[];
+    userPrompt: string;
+    subjectNotes?: string;
+    activeProfileId?: string | null;
+    generationCount: number;
+    variationMode?: VariationMode;
+    customVariations?: string;
+    outputSettings?: OutputSettings;
+    styleControls?: StyleControls;
+    generatedImages: GeneratedImage<Image>[];
+    currentRunId: string | null;
+}
@@ -8,11 +8,13 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': env.PROXY_URL || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER)
       },
       resolve: {
         alias: {